@@ -1,7 +1,8 @@
 import type { AuditLog } from "../types/audit.js";
 import type { NormalizedConfig } from "../types/config.js";
 import { extractPrimaryKey } from "../utils/primary-key.js";
-import { filterFields } from "../utils/serializer.js";
+import { redactFields } from "../utils/redaction.js";
+import { filterFields, getStoredValues } from "../utils/serializer.js";
 
 /**
  * Create audit logs for INSERT operations
@@ -15,6 +16,10 @@ export function createInsertAuditLogs(
     action: "INSERT" as const,
     tableName,
     recordId: extractPrimaryKey(record, tableName, config.tables),
-    values: filterFields(record, tableName, config),
+    values: getStoredValues(
+      redactFields(filterFields(record, tableName, config), tableName, config),
+      tableName,
+      config,
+    ),
   }));
 }
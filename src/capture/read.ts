@@ -0,0 +1,58 @@
+import type { AuditLog } from "../types/audit.js";
+import type { NormalizedConfig } from "../types/config.js";
+import { extractPrimaryKey } from "../utils/primary-key.js";
+
+/**
+ * Record ID used for READ summary entries
+ */
+export const READ_SUMMARY_RECORD_ID = "*";
+
+/**
+ * Create audit logs for READ operations
+ * Logs one entry per returned primary key, or a single summary entry when the
+ * row count exceeds the threshold or rows do not include the primary key
+ */
+export function createReadAuditLogs(
+  tableName: string,
+  records: Record<string, unknown>[],
+  columns: string[],
+  config: NormalizedConfig,
+): AuditLog[] {
+  if (records.length === 0) return [];
+
+  const recordIds =
+    records.length > config.readSummaryThreshold
+      ? null
+      : extractReadRecordIds(records, tableName, config);
+
+  if (!recordIds) {
+    return [
+      {
+        action: "READ",
+        tableName,
+        recordId: READ_SUMMARY_RECORD_ID,
+        metadata: { columns, rowCount: records.length, summary: true },
+      },
+    ];
+  }
+
+  return recordIds.map((recordId) => ({
+    action: "READ",
+    tableName,
+    recordId,
+    metadata: { columns },
+  }));
+}
+
+function extractReadRecordIds(
+  records: Record<string, unknown>[],
+  tableName: string,
+  config: NormalizedConfig,
+): string[] | null {
+  try {
+    return records.map((record) => extractPrimaryKey(record, tableName, config.tables));
+  } catch {
+    // Projection left out the primary key
+    return null;
+  }
+}
@@ -1,7 +1,14 @@
-import type { AuditLog } from "../types/audit.js";
-import type { NormalizedConfig } from "../types/config.js";
+import type { AuditLog, AuditLogValues } from "../types/audit.js";
+import type { NormalizedConfig, UpdateValuesMode } from "../types/config.js";
+import { createJsonPatch } from "../utils/json-patch.js";
 import { extractPrimaryKey } from "../utils/primary-key.js";
-import { filterFields, getChangedValues } from "../utils/serializer.js";
+import { getRedactedChanges, redactFields } from "../utils/redaction.js";
+import {
+  filterFields,
+  getChangedValues,
+  getStoredValues,
+  getValueDiffs,
+} from "../utils/serializer.js";
 
 /**
  * Create audit logs for UPDATE operations
@@ -13,18 +20,21 @@ export function createUpdateAuditLogs(
   config: NormalizedConfig,
 ): AuditLog[] {
   const logs: AuditLog[] = [];
+  const updateValuesMode = config.tables[tableName]?.updateValuesMode ?? config.updateValuesMode;
 
-  if (config.updateValuesMode === "full" || beforeRecords.length === 0) {
+  if (updateValuesMode === "full" || beforeRecords.length === 0) {
     // Full row mode or fallback when before state isn't available
     for (const after of afterRecords) {
       if (!after) continue;
 
-      const values = filterFields(after, tableName, config);
+      const values = redactFields(filterFields(after, tableName, config), tableName, config);
       logs.push({
         action: "UPDATE" as const,
         tableName,
         recordId: extractPrimaryKey(after, tableName, config.tables),
-        values,
+        values: getStoredValues(values, tableName, config),
+        // Full rows stored in place of changes are flagged so readers can tell the shapes apart
+        ...(updateValuesMode !== "full" && { metadata: { beforeStateMissing: true } }),
       });
     }
     return logs;
@@ -43,30 +53,54 @@ export function createUpdateAuditLogs(
 
     const before = beforeById.get(extractPrimaryKey(after, tableName, config.tables));
     if (!before) {
-      const values = filterFields(after, tableName, config);
+      const values = redactFields(filterFields(after, tableName, config), tableName, config);
       logs.push({
         action: "UPDATE" as const,
         tableName,
         recordId: extractPrimaryKey(after, tableName, config.tables),
-        values,
+        values: getStoredValues(values, tableName, config),
+        metadata: { beforeStateMissing: true },
       });
       continue;
     }
 
-    const beforeValues = filterFields(before, tableName, config);
-    const afterValues = filterFields(after, tableName, config);
-    const changedValues = getChangedValues(beforeValues, afterValues);
+    const beforeValues = filterFields(before, tableName, config) ?? {};
+    const afterValues = filterFields(after, tableName, config) ?? {};
+    // Detect changes on the original values; redaction may hide them (drop/marker)
+    const redactedFields = getRedactedChanges(beforeValues, afterValues, tableName, config);
+    const changedValues = getUpdateValues(
+      redactFields(beforeValues, tableName, config),
+      redactFields(afterValues, tableName, config),
+      updateValuesMode,
+    );
 
     // Only create audit log if something actually changed
-    if (changedValues && Object.keys(changedValues).length > 0) {
+    const hasChanges = changedValues && Object.keys(changedValues).length > 0;
+    if (hasChanges || redactedFields.length > 0) {
       logs.push({
         action: "UPDATE" as const,
         tableName,
         recordId: extractPrimaryKey(after, tableName, config.tables),
-        values: changedValues,
+        values: getStoredValues(changedValues, tableName, config),
+        ...(redactedFields.length > 0 && { metadata: { redactedFields } }),
       });
     }
   }
 
   return logs;
 }
+
+function getUpdateValues(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  updateValuesMode: UpdateValuesMode,
+): AuditLogValues | undefined {
+  switch (updateValuesMode) {
+    case "diff":
+      return getValueDiffs(before, after);
+    case "patch":
+      return before && after ? createJsonPatch(before, after) : undefined;
+    default:
+      return getChangedValues(before, after);
+  }
+}
@@ -1,25 +1,65 @@
-import type { BatchAuditWriterStats } from "../storage/batch-writer.js";
-import type { BatchedCustomWriterStats } from "../storage/batched-custom-writer.js";
 import type { AuditLog } from "../types/audit.js";
 import type {
   AuditConfig,
   AuditContext,
   AuditColumnMap,
+  AuditCustomWriter,
+  AuditDiscoveryConfig,
   AuditTableName,
+  AuditTableOptions,
   AuditTableRecord,
+  AuditWriteAction,
+  BatchWriterStats,
   NormalizedConfig,
+  NormalizedTableConfig,
+  RawSqlConfig,
+  UpdateValuesMode,
+  ValueKeyStyle,
 } from "../types/config.js";
+import { isTable, type Table } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { createDeleteAuditLogs } from "../capture/delete.js";
 import { createInsertAuditLogs } from "../capture/insert.js";
+import { createReadAuditLogs, READ_SUMMARY_RECORD_ID } from "../capture/read.js";
 import { createUpdateAuditLogs } from "../capture/update.js";
 import { BatchAuditWriter } from "../storage/batch-writer.js";
 import { BatchedCustomWriter } from "../storage/batched-custom-writer.js";
 import { DEFAULT_AUDIT_COLUMN_MAP } from "../storage/column-map.js";
-import { AuditWriter } from "../storage/writer.js";
+import { AuditWriter, type AuditWriteHooks } from "../storage/writer.js";
+import { discoverTables, formatDiscoverySummary } from "../utils/discovery.js";
+import { encryptAuditLogs } from "../utils/encryption.js";
+import { parseFieldPath } from "../utils/field-path.js";
 import { sanitizeError } from "../utils/logging.js";
+import { toAuditLogEntries } from "../utils/metadata.js";
+import { extractPrimaryKey, inferPrimaryKey } from "../utils/primary-key.js";
+import { getAuditTableName, normalizeTableName } from "../utils/table-name.js";
+import { MIN_ENTRY_BYTES, truncateAuditLog } from "../utils/truncation.js";
+import { getColumnNames, toPropertyKeys, toValuePaths } from "../utils/value-keys.js";
+import { DEFAULT_VALUE_SERIALIZERS, getColumnTypes } from "../utils/value-serializers.js";
 import { AuditContextManager } from "./context.js";
+import {
+  AuditEventEmitter,
+  type AuditDropReason,
+  type AuditEventEntry,
+  type AuditEventListener,
+  type AuditEventName,
+} from "./events.js";
 import { createInterceptedDb } from "./interceptor.js";
+import {
+  AuditTransactionManager,
+  type AuditTransactionInfo,
+  type AuditTransactionScope,
+  type BufferedAuditLogs,
+} from "./transaction.js";
+
+const AUDIT_WRITE_ACTIONS: AuditWriteAction[] = ["INSERT", "UPDATE", "DELETE"];
+const UPDATE_VALUES_MODES: UpdateValuesMode[] = ["changed", "full", "diff", "patch"];
+const VALUE_KEY_STYLES: ValueKeyStyle[] = ["property", "column", "both"];
+const REDACTION_STRATEGIES: string[] = ["drop", "marker", "hash", "mask"];
+
+type TableConfigInput = Partial<Omit<NormalizedTableConfig, "primaryKey">> & {
+  primaryKey: string | string[];
+};
 
 /**
  * Main audit logger class
@@ -40,10 +80,13 @@ import { createInterceptedDb } from "./interceptor.js";
 export class AuditLogger<TSchema extends Record<string, unknown> = any> {
   private config: NormalizedConfig<TSchema>;
   private contextManager = new AuditContextManager();
+  private transactionManager = new AuditTransactionManager();
   private writer: AuditWriter | null = null;
   private batchWriter: BatchAuditWriter | null = null;
   private batchedCustomWriter: BatchedCustomWriter | null = null;
-  private customWriter?: AuditConfig<TSchema>["customWriter"];
+  private customWriter?: AuditCustomWriter;
+  private events: AuditEventEmitter;
+  private skippedCount = 0;
 
   /**
    * Creates a new AuditLogger instance
@@ -66,36 +109,56 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
   ) {
     this.config = this.normalizeConfig(config);
     this.validateConfig(this.config);
-    this.customWriter = config.customWriter as AuditConfig<TSchema>["customWriter"];
+    this.customWriter = this.config.customWriter;
+    this.events = new AuditEventEmitter(this.config.logError);
 
     // Initialize appropriate writer
-    if (this.config.batch && config.customWriter) {
+    if (this.config.batch && this.customWriter) {
       // Use batched custom writer
-      this.batchedCustomWriter = new BatchedCustomWriter(config.customWriter as any, {
-        batchSize: this.config.batch.batchSize,
-        maxQueueSize: this.config.batch.maxQueueSize,
-        flushInterval: this.config.batch.flushInterval,
-        strictMode: this.config.strictMode,
-        waitForWrite: this.config.batch.waitForWrite,
-        logError: this.config.logError,
-      });
+      this.batchedCustomWriter = new BatchedCustomWriter(
+        this.customWriter,
+        {
+          batchSize: this.config.batch.batchSize,
+          maxQueueSize: this.config.batch.maxQueueSize,
+          flushInterval: this.config.batch.flushInterval,
+          strictMode: this.config.strictMode,
+          waitForWrite: this.config.batch.waitForWrite,
+          logError: this.config.logError,
+        },
+        {
+          onWritten: (logs, context) => {
+            void this.emitForLogs(logs, context, ["log", "flush"], (entries) =>
+              this.emitWritten(entries),
+            );
+          },
+          onFailed: (error, logs, context) => {
+            void this.emitForLogs(logs, context, ["error", "dropped"], (entries) =>
+              this.emitFailed(error, entries, "write_failed"),
+            );
+          },
+        },
+      );
     } else if (this.config.batch) {
       // Use batch writer (standard)
-      this.batchWriter = new BatchAuditWriter(db, {
-        auditTable: this.config.auditTable,
-        auditColumnMap: this.config.auditColumnMap,
-        batchSize: this.config.batch.batchSize,
-        maxQueueSize: this.config.batch.maxQueueSize,
-        flushInterval: this.config.batch.flushInterval,
-        strictMode: this.config.strictMode,
-        getUserId: this.config.getUserId,
-        getMetadata: this.config.getMetadata,
-        waitForWrite: this.config.batch.waitForWrite,
-        logError: this.config.logError,
-      });
+      this.batchWriter = new BatchAuditWriter(
+        db,
+        {
+          auditTable: this.config.auditTable,
+          auditColumnMap: this.config.auditColumnMap,
+          batchSize: this.config.batch.batchSize,
+          maxQueueSize: this.config.batch.maxQueueSize,
+          flushInterval: this.config.batch.flushInterval,
+          strictMode: this.config.strictMode,
+          getUserId: this.config.getUserId,
+          getMetadata: this.config.getMetadata,
+          waitForWrite: this.config.batch.waitForWrite,
+          logError: this.config.logError,
+        },
+        this.getWriteHooks(),
+      );
     } else {
       // Use immediate writer
-      this.writer = new AuditWriter(db, this.config);
+      this.writer = new AuditWriter(db, this.config, this.getWriteHooks());
     }
   }
 
@@ -120,22 +183,129 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
       }
     }
 
+    if (!Number.isInteger(config.readSummaryThreshold) || config.readSummaryThreshold < 0) {
+      throw new Error("readSummaryThreshold must be a non-negative integer");
+    }
+
+    for (const option of ["maxFieldBytes", "maxEntryBytes"] as const) {
+      const limit = config[option];
+      if (limit !== null && (!Number.isInteger(limit) || limit <= 0)) {
+        throw new Error(`${option} must be a positive integer`);
+      }
+    }
+    if (config.maxEntryBytes !== null && config.maxEntryBytes < MIN_ENTRY_BYTES) {
+      throw new Error(`maxEntryBytes must be at least ${MIN_ENTRY_BYTES}`);
+    }
+
+    config.pipeline.forEach((middleware, index) => {
+      if (typeof middleware !== "function") {
+        throw new Error(`pipeline[${index}] must be a function`);
+      }
+    });
+
+    if (
+      !Number.isInteger(config.noWhereClauseCaptureLimit) ||
+      config.noWhereClauseCaptureLimit <= 0
+    ) {
+      throw new Error("noWhereClauseCaptureLimit must be a positive integer");
+    }
+
+    if (!VALUE_KEY_STYLES.includes(config.valueKeyStyle)) {
+      throw new Error(`valueKeyStyle must be one of ${VALUE_KEY_STYLES.join(", ")}`);
+    }
+
     if (Object.keys(config.tables).length === 0) {
       throw new Error("tables config cannot be empty.");
     }
 
     this.validateTablesConfig(config);
+    this.validateFieldPaths(config);
+    this.validateRedaction(config);
+    this.validateEncryption(config);
+    this.validateSerializers(config);
     this.validateColumnMap(config.auditColumnMap);
   }
 
-  private validateTablesConfig(config: NormalizedConfig<TSchema>): void {
-    for (const [table, tableConfig] of Object.entries(config.tables) as Array<
-      [string, { primaryKey: string | string[] }]
-    >) {
-      if (!tableConfig) {
-        throw new Error(`tables.${table} is missing configuration`);
+  private validateFieldPaths(config: NormalizedConfig<TSchema>): void {
+    const fields = Object.values(config.fields as Record<string, string[] | undefined>);
+    const redacted = Object.keys(config.redact);
+    for (const path of [
+      ...config.excludeFields,
+      ...fields.flatMap((paths) => paths ?? []),
+      ...redacted,
+    ]) {
+      // Throws on malformed paths such as "settings..token"
+      parseFieldPath(path);
+    }
+  }
+
+  private validateRedaction(config: NormalizedConfig<TSchema>): void {
+    for (const [path, strategy] of Object.entries(config.redact)) {
+      const isValid =
+        typeof strategy === "function" ||
+        (typeof strategy === "string" && REDACTION_STRATEGIES.includes(strategy)) ||
+        (typeof strategy === "object" && strategy !== null && typeof strategy.marker === "string");
+      if (!isValid) {
+        throw new Error(`redact["${path}"] has an unknown redaction strategy`);
+      }
+      if (strategy === "hash" && !config.redactionKey) {
+        throw new Error('redactionKey is required for the "hash" redaction strategy');
+      }
+    }
+  }
+
+  private validateEncryption(config: NormalizedConfig<TSchema>): void {
+    if (!config.encryption) return;
+
+    const { keyProvider, fields, metadataFields } = config.encryption;
+    if (
+      typeof keyProvider?.getCurrentKey !== "function" ||
+      typeof keyProvider?.getKey !== "function"
+    ) {
+      throw new Error("encryption.keyProvider must implement getCurrentKey and getKey");
+    }
+    if (fields.length === 0 && metadataFields.length === 0) {
+      throw new Error("encryption requires at least one of fields or metadataFields");
+    }
+    for (const path of [...fields, ...metadataFields]) {
+      parseFieldPath(path);
+    }
+  }
+
+  private validateSerializers(config: NormalizedConfig<TSchema>): void {
+    config.serializers.forEach((serializer, index) => {
+      if (!serializer?.name || typeof serializer.serialize !== "function") {
+        throw new Error(`serializers[${index}] must have a name and a serialize function`);
       }
+      if (typeof serializer.test !== "function" && serializer.columnType === undefined) {
+        throw new Error(`serializers[${index}] must define test or columnType`);
+      }
+    });
+  }
+
+  private validateTablesConfig(config: NormalizedConfig<TSchema>): void {
+    for (const [table, tableConfig] of Object.entries(config.tables)) {
       this.validatePrimaryKeyValue(table, tableConfig.primaryKey);
+
+      if (
+        !Array.isArray(tableConfig.actions) ||
+        tableConfig.actions.some((action) => !AUDIT_WRITE_ACTIONS.includes(action))
+      ) {
+        throw new Error(
+          `tables.${table}.actions must only contain ${AUDIT_WRITE_ACTIONS.join(", ")}`,
+        );
+      }
+      if (!UPDATE_VALUES_MODES.includes(tableConfig.updateValuesMode)) {
+        throw new Error(
+          `tables.${table}.updateValuesMode must be one of ${UPDATE_VALUES_MODES.join(", ")}`,
+        );
+      }
+      if (!Array.isArray(tableConfig.excludeFields)) {
+        throw new Error(`tables.${table}.excludeFields must be an array`);
+      }
+      for (const path of tableConfig.excludeFields) {
+        parseFieldPath(path);
+      }
     }
   }
 
@@ -170,6 +340,104 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
     }
   }
 
+  /**
+   * Key table settings by table name, inferring primary keys of Drizzle table objects
+   * Table objects are keyed by their SQL name (schema-qualified outside `public`); explicit
+   * settings override inferred ones.
+   * @private
+   */
+  private resolveTableInputs(
+    tables: NonNullable<AuditConfig<TSchema>["tables"]>,
+  ): Map<string, TableConfigInput | undefined> {
+    const inputs: Array<[string | null, unknown]> = Array.isArray(tables)
+      ? tables.map((input) => [null, input])
+      : Object.entries(tables);
+    const resolved = new Map<string, TableConfigInput | undefined>();
+
+    const add = (name: string, settings: TableConfigInput | undefined) => {
+      if (resolved.has(name)) {
+        throw new Error(`tables.${name} is configured more than once`);
+      }
+      resolved.set(name, settings);
+    };
+
+    for (const [key, input] of inputs) {
+      // Map entries are settings keyed by table name; only array entries are table objects
+      if (key !== null) {
+        add(normalizeTableName(key), input as TableConfigInput | undefined);
+        continue;
+      }
+
+      const options = input as AuditTableOptions | undefined;
+      const table = isTable(input) ? input : isTable(options?.table) ? options.table : null;
+      if (!table) {
+        throw new Error("tables array entries must be Drizzle tables or { table } options");
+      }
+
+      const name = getAuditTableName(table);
+      const { table: _table, ...settings } = isTable(input) ? { table } : options!;
+      const primaryKey = settings.primaryKey ?? inferPrimaryKey(table);
+      if (!primaryKey) {
+        throw new Error(`tables.${name} has no primary key; set primaryKey explicitly`);
+      }
+      add(name, {
+        ...settings,
+        primaryKey,
+        columns: getColumnNames(table),
+        columnTypes: getColumnTypes(table),
+      } as TableConfigInput);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Add schema tables matching the discovery patterns and log the startup summary
+   * @private
+   */
+  private addDiscoveredTables(
+    discover: AuditDiscoveryConfig,
+    tableInputs: Map<string, TableConfigInput | undefined>,
+    logInfo: (message: string) => void,
+  ): void {
+    if (typeof discover.schema !== "object" || discover.schema === null) {
+      throw new Error("discover.schema must be a Drizzle schema object");
+    }
+
+    const { discovered, skipped } = discoverTables(discover, new Set(tableInputs.keys()));
+    for (const { name, primaryKey, columns, columnTypes } of discovered) {
+      tableInputs.set(name, { primaryKey, columns, columnTypes });
+    }
+
+    if (discover.logSummary ?? true) {
+      logInfo(formatDiscoverySummary([...tableInputs.keys()], skipped));
+    }
+  }
+
+  /**
+   * Fill column metadata of tables configured by name from the db's Drizzle schema
+   * Field paths then match column names from the first log on, not only after the
+   * interceptor has seen a query on the table (see `registerTableColumns`).
+   * @private
+   */
+  private addSchemaColumns(tableInputs: Map<string, TableConfigInput | undefined>): void {
+    const schema = (this.db as { _?: { fullSchema?: Record<string, unknown> } })._?.fullSchema;
+    if (!schema) return;
+
+    for (const table of Object.values(schema)) {
+      if (!isTable(table)) continue;
+      const name = getAuditTableName(table);
+      const settings = tableInputs.get(name);
+      if (settings && !settings.columns) {
+        tableInputs.set(name, {
+          ...settings,
+          columns: getColumnNames(table),
+          columnTypes: getColumnTypes(table),
+        });
+      }
+    }
+  }
+
   /**
    * Normalize configuration with defaults
    * @private
@@ -184,14 +452,57 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
         }
       : null;
 
+    const excludeFields = config.excludeFields || ["password", "token", "secret", "apiKey"];
+    const strictMode = config.strictMode ?? false;
+    const updateValuesMode = config.updateValuesMode ?? "changed";
+    const logInfo = config.logInfo || ((message: string) => console.log(message));
+
+    // Merge per-table overrides with the global settings
+    const tables: Record<string, NormalizedTableConfig> = {};
+    const tableInputs = this.resolveTableInputs(config.tables ?? {});
+    if (config.discover) {
+      this.addDiscoveredTables(config.discover, tableInputs, logInfo);
+    }
+    this.addSchemaColumns(tableInputs);
+    for (const [table, tableConfig] of tableInputs) {
+      if (!tableConfig) {
+        throw new Error(`tables.${table} is missing configuration`);
+      }
+      tables[table] = {
+        primaryKey: tableConfig.primaryKey,
+        auditReads: tableConfig.auditReads ?? false,
+        actions: tableConfig.actions ?? [...AUDIT_WRITE_ACTIONS],
+        excludeFields: tableConfig.excludeFields ?? excludeFields,
+        updateValuesMode: tableConfig.updateValuesMode ?? updateValuesMode,
+        strictMode: tableConfig.strictMode ?? strictMode,
+        storeValues: tableConfig.storeValues ?? true,
+        columns: tableConfig.columns ?? null,
+        columnTypes: tableConfig.columnTypes ?? null,
+      };
+    }
+
     return {
-      tables: config.tables,
-      fields: config.fields || {},
-      excludeFields: config.excludeFields || ["password", "token", "secret", "apiKey"],
+      tables,
+      fields: Object.fromEntries(
+        Object.entries(config.fields || {}).map(([table, paths]) => [
+          normalizeTableName(table),
+          paths,
+        ]),
+      ) as NormalizedConfig<TSchema>["fields"],
+      excludeFields,
+      redact: config.redact || {},
+      redactionKey: config.redactionKey,
+      encryption: config.encryption
+        ? {
+            keyProvider: config.encryption.keyProvider,
+            fields: config.encryption.fields ?? [],
+            metadataFields: config.encryption.metadataFields ?? [],
+          }
+        : null,
       auditTable: config.auditTable || "audit_logs",
       // oxlint-disable-next-line unicorn/no-useless-fallback-in-spread
       auditColumnMap: { ...DEFAULT_AUDIT_COLUMN_MAP, ...(config.auditColumnMap || {}) },
-      strictMode: config.strictMode ?? false,
+      strictMode,
       getUserId: config.getUserId || (() => undefined),
       getMetadata: config.getMetadata || (() => ({})),
       logError:
@@ -199,9 +510,25 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
         ((message, error) => {
           console.error(message, sanitizeError(error));
         }),
-      updateValuesMode: config.updateValuesMode ?? "changed",
+      logInfo,
+      updateValuesMode,
+      valueKeyStyle: config.valueKeyStyle ?? "property",
+      serializers: [...(config.serializers ?? []), ...DEFAULT_VALUE_SERIALIZERS],
+      tagSerializedValues: config.tagSerializedValues ?? false,
+      beforeStateCapture: config.beforeStateCapture ?? "select",
+      noWhereClausePolicy: config.noWhereClausePolicy ?? "warn",
+      noWhereClauseCaptureLimit: config.noWhereClauseCaptureLimit ?? 1000,
+      transactionMode: config.transactionMode ?? "immediate",
+      readSummaryThreshold: config.readSummaryThreshold ?? 100,
+      maxFieldBytes: config.maxFieldBytes ?? null,
+      maxEntryBytes: config.maxEntryBytes ?? null,
       batch: batchConfig,
-      customWriter: config.customWriter,
+      rawSql: config.rawSql ? { onUnparsed: config.rawSql.onUnparsed ?? "warn" } : null,
+      // Logs only ever carry configured table names, so the schema-typed writer accepts them
+      customWriter: config.customWriter as AuditCustomWriter | undefined,
+      shouldAuditOperation: config.shouldAuditOperation,
+      pipeline: config.pipeline ?? [],
+      eventTiming: config.eventTiming ?? "write",
     };
   }
 
@@ -245,11 +572,216 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
   }
 
   /**
-   * Check if before state should be captured for UPDATE operations
+   * Record the column names and types of an audited table seen in a query
+   * Exposed for use by interceptor (tables configured by name have no column metadata)
+   *
+   * @param tableName - Name of the table
+   * @param table - Drizzle table object
+   */
+  registerTableColumns(tableName: string, table: Table): void {
+    const tableConfig = this.config.tables[tableName];
+    if (tableConfig && !tableConfig.columns) {
+      tableConfig.columns = getColumnNames(table);
+      tableConfig.columnTypes = getColumnTypes(table);
+    }
+  }
+
+  /**
+   * Check if reads from a table should be audited
+   * Exposed for use by interceptor
+   *
+   * @param tableName - Name of the table to check
+   * @returns True if the table is audited with `auditReads` enabled
+   */
+  shouldAuditReads(tableName: string): boolean {
+    if (!this.shouldAudit(tableName)) return false;
+
+    return this.config.tables[tableName]?.auditReads === true;
+  }
+
+  /**
+   * Check if a write action on a table should be audited
+   * Exposed for use by interceptor
+   *
+   * @param tableName - Name of the table to check
+   * @param action - INSERT, UPDATE or DELETE
+   * @returns True if the table is audited and the action is in its `actions`
+   */
+  shouldAuditAction(tableName: string, action: AuditWriteAction): boolean {
+    if (!this.shouldAudit(tableName)) return false;
+
+    return this.config.tables[tableName]?.actions.includes(action) === true;
+  }
+
+  /**
+   * Run the `shouldAuditOperation` hook before a statement executes
+   * Exposed for use by interceptor
+   *
+   * @param tableName - Name of the table
+   * @param action - INSERT, UPDATE or DELETE
+   * @returns False if the hook skipped the operation
+   */
+  async shouldAuditOperation(tableName: string, action: string): Promise<boolean> {
+    if (!this.config.shouldAuditOperation) return true;
+
+    const audit = await this.config.shouldAuditOperation({
+      table: tableName,
+      action,
+      context: this.contextManager.getContext(),
+      records: [],
+    });
+    if (!audit) this.skippedCount++;
+    return audit;
+  }
+
+  /**
+   * Check if before state should be captured for UPDATE operations on a table
+   * Exposed for use by interceptor
+   */
+  shouldCaptureBeforeState(tableName: string): boolean {
+    const updateValuesMode =
+      this.config.tables[tableName]?.updateValuesMode ?? this.config.updateValuesMode;
+    return updateValuesMode !== "full";
+  }
+
+  /**
+   * Check if before state should be captured under a row lock together with the UPDATE
+   * Exposed for use by interceptor
+   */
+  shouldLockBeforeState(): boolean {
+    return this.config.beforeStateCapture === "lock";
+  }
+
+  /**
+   * Get the policy for UPDATE/DELETE statements without a WHERE clause
+   * Exposed for use by interceptor
+   */
+  getNoWhereClausePolicy(): NormalizedConfig["noWhereClausePolicy"] {
+    return this.config.noWhereClausePolicy;
+  }
+
+  /**
+   * Get the maximum number of rows captured for statements without a WHERE clause
+   * Exposed for use by interceptor
+   */
+  getNoWhereClauseCaptureLimit(): number {
+    return this.config.noWhereClauseCaptureLimit;
+  }
+
+  /**
+   * Get raw `db.execute()` auditing settings
+   * Exposed for use by interceptor
+   *
+   * @returns Raw SQL settings, or null when raw statements are not audited
+   */
+  getRawSqlConfig(): Required<RawSqlConfig> | null {
+    return this.config.rawSql;
+  }
+
+  /**
+   * Map raw SQL rows from column names to property keys, like query builder rows
+   * Exposed for use by interceptor
+   *
+   * @param tableName - Name of the table
+   * @param rows - Rows keyed by column name
+   */
+  toPropertyRows(tableName: string, rows: Record<string, unknown>[]): Record<string, unknown>[] {
+    return rows.map((row) => toPropertyKeys(row, tableName, this.config));
+  }
+
+  /**
+   * Report a problem that does not stop the audited statement through `logError`
+   * Exposed for use by interceptor
+   *
+   * @param message - Description prefixed with `[AUDIT]`
+   * @param error - The underlying error
+   */
+  reportError(message: string, error: unknown): void {
+    this.config.logError(message, error);
+  }
+
+  /**
+   * Handle a failure to audit a statement that has already run
+   * Strict tables rethrow; otherwise the error is reported through `logError`
+   * Exposed for use by interceptor
+   *
+   * @param tableName - Name of the table
+   * @param error - The audit failure
+   * @throws The error when the table is strict
+   */
+  handleAuditError(tableName: string, error: unknown): void {
+    if (this.config.tables[tableName]?.strictMode ?? this.config.strictMode) {
+      throw error;
+    }
+    this.config.logError("[AUDIT] Failed to audit statement:", error);
+  }
+
+  /**
+   * Run a function inside an audited transaction scope
+   * Exposed for use by interceptor
+   *
+   * @param scope - Transaction ID and raw transaction handle
+   * @param fn - Function to execute within the transaction
+   * @returns Result of the function
+   */
+  runInTransaction<T>(scope: AuditTransactionScope, fn: () => T): T {
+    return this.transactionManager.runInTransaction(scope, fn);
+  }
+
+  /**
+   * Get the active audited transaction scope
+   * Exposed for use by interceptor
+   *
+   * @returns Current transaction scope or undefined outside audited transactions
+   */
+  getTransaction(): AuditTransactionScope | undefined {
+    return this.transactionManager.getTransaction();
+  }
+
+  /**
+   * Complete an audited transaction or nested savepoint
    * Exposed for use by interceptor
+   *
+   * Buffered logs are written once the root transaction commits, merged into the
+   * parent when a savepoint is released, and dropped on rollback.
+   *
+   * @param transaction - Transaction (or savepoint) that completed
+   * @param committed - Whether the transaction callback resolved
    */
-  shouldCaptureBeforeState(): boolean {
-    return this.config.updateValuesMode === "changed";
+  async completeTransaction(transaction: AuditTransactionInfo, committed: boolean): Promise<void> {
+    const buffered = this.transactionManager.takeBufferedLogs(transaction);
+    if (buffered.length === 0) return;
+
+    if (!committed) {
+      await this.emitRolledBack(buffered);
+      return;
+    }
+
+    if (transaction.depth > 0) {
+      this.transactionManager.mergeIntoParent(transaction, buffered);
+      return;
+    }
+
+    const written = buffered.flatMap((entry) => entry.written ?? []);
+    if (written.length > 0) {
+      this.emitWritten(written);
+    }
+
+    // Coalesce consecutive captures that share a context into a single write
+    const groups: BufferedAuditLogs[] = [];
+    for (const entry of buffered) {
+      if (entry.logs.length === 0) continue;
+      const last = groups[groups.length - 1];
+      if (last && last.context === entry.context) {
+        last.logs.push(...entry.logs);
+      } else {
+        groups.push({ logs: [...entry.logs], context: entry.context });
+      }
+    }
+
+    for (const { logs, context } of groups) {
+      await this.dispatchAuditLogs(logs, context);
+    }
   }
 
   /**
@@ -267,12 +799,12 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
     tableName: TTable,
     insertedRecords: AuditTableRecord<TSchema, TTable> | AuditTableRecord<TSchema, TTable>[],
   ): Promise<void> {
-    if (!this.shouldAudit(tableName)) return;
+    if (!this.shouldAuditAction(tableName, "INSERT")) return;
 
     const records = Array.isArray(insertedRecords) ? insertedRecords : [insertedRecords];
     const logs = createInsertAuditLogs(tableName, records, this.config);
 
-    await this.writeAuditLogs(logs);
+    await this.writeAuditLogs(logs, records);
   }
 
   /**
@@ -295,13 +827,13 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
     beforeRecords: AuditTableRecord<TSchema, TTable> | AuditTableRecord<TSchema, TTable>[],
     afterRecords: AuditTableRecord<TSchema, TTable> | AuditTableRecord<TSchema, TTable>[],
   ): Promise<void> {
-    if (!this.shouldAudit(tableName)) return;
+    if (!this.shouldAuditAction(tableName, "UPDATE")) return;
 
     const before = Array.isArray(beforeRecords) ? beforeRecords : [beforeRecords];
     const after = Array.isArray(afterRecords) ? afterRecords : [afterRecords];
     const logs = createUpdateAuditLogs(tableName, before, after, this.config);
 
-    await this.writeAuditLogs(logs);
+    await this.writeAuditLogs(logs, after);
   }
 
   /**
@@ -319,30 +851,210 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
     tableName: TTable,
     deletedRecords: AuditTableRecord<TSchema, TTable> | AuditTableRecord<TSchema, TTable>[],
   ): Promise<void> {
-    if (!this.shouldAudit(tableName)) return;
+    if (!this.shouldAuditAction(tableName, "DELETE")) return;
 
     const records = Array.isArray(deletedRecords) ? deletedRecords : [deletedRecords];
     const logs = createDeleteAuditLogs(tableName, records, this.config);
 
-    await this.writeAuditLogs(logs);
+    await this.writeAuditLogs(logs, records);
+  }
+
+  /**
+   * Manually log a READ operation
+   *
+   * @param tableName - Name of the table
+   * @param readRecords - Record(s) that were returned
+   * @param columns - Columns that were projected by the query
+   *
+   * @example
+   * ```typescript
+   * await logger.logRead('patients', rows, ['id', 'name', 'diagnosis']);
+   * ```
+   */
+  async logRead<TTable extends AuditTableName<TSchema>>(
+    tableName: TTable,
+    readRecords: AuditTableRecord<TSchema, TTable> | AuditTableRecord<TSchema, TTable>[],
+    columns: string[],
+  ): Promise<void> {
+    if (!this.shouldAudit(tableName)) return;
+
+    const records = Array.isArray(readRecords) ? readRecords : [readRecords];
+    const logs = createReadAuditLogs(tableName, records, columns, this.config);
+
+    await this.writeAuditLogs(logs, records);
   }
 
   /**
    * Internal method to write audit logs (uses custom writer if provided)
    * @private
    */
-  private async writeAuditLogs(logs: any[]): Promise<void> {
-    if (logs.length === 0) return;
+  private async writeAuditLogs(
+    allLogs: AuditLog[],
+    records: Record<string, unknown>[] = [],
+  ): Promise<void> {
+    const kept = await this.filterSkippedLogs(allLogs, records);
+    if (kept.length === 0) return;
+
+    const auditContext = this.contextManager.getContext();
+    const processed = await this.runPipeline(kept, auditContext);
+    if (processed.length === 0) return;
+
+    // Encrypt first so truncation previews and digests never see plaintext
+    const encrypted = await this.encryptAuditLogs(processed, auditContext);
+    if (!encrypted) return;
+    const { context } = encrypted;
+    const logs = encrypted.logs.map((log) => truncateAuditLog(log, this.config));
+    if (this.config.eventTiming === "capture") {
+      await this.emitForLogs(logs, context, ["log"], (entries) => {
+        for (const entry of entries) this.events.emit("log", entry);
+      });
+    }
+    const transaction = this.transactionManager.getTransaction();
+
+    if (transaction) {
+      if (this.config.transactionMode === "atomic" && !this.customWriter) {
+        // Write through the transaction handle; failures must abort the transaction
+        await this.getTransactionWriter(transaction).writeAuditLogs(logs, context);
+        return;
+      }
+
+      if (this.config.transactionMode !== "immediate") {
+        // Hold logs until the transaction commits (custom sinks cannot join it)
+        this.transactionManager.bufferLogs(transaction, [{ logs, context }]);
+        return;
+      }
+    }
+
+    await this.dispatchAuditLogs(logs, context);
+  }
+
+  /**
+   * Drop log entries rejected by the `shouldAuditOperation` hook
+   * Each entry is checked with the row it describes (all rows for summary entries)
+   * @private
+   */
+  private async filterSkippedLogs(
+    logs: AuditLog[],
+    records: Record<string, unknown>[],
+  ): Promise<AuditLog[]> {
+    const hook = this.config.shouldAuditOperation;
+    if (!hook || logs.length === 0) return logs;
 
     const context = this.contextManager.getContext();
+    const recordsById = new Map<string, Record<string, unknown>>();
+    const tableName = logs[0]!.tableName;
+    // Summary entries cover rows that may lack the primary key
+    if (logs.some((log) => log.recordId !== READ_SUMMARY_RECORD_ID)) {
+      for (const record of records) {
+        recordsById.set(extractPrimaryKey(record, tableName, this.config.tables), record);
+      }
+    }
+
+    const kept: AuditLog[] = [];
+    for (const log of logs) {
+      const record = recordsById.get(log.recordId);
+      const audit = await hook({
+        table: log.tableName,
+        action: log.action,
+        context,
+        records: log.recordId === READ_SUMMARY_RECORD_ID ? records : record ? [record] : [],
+      });
+      if (audit) {
+        kept.push(log);
+      } else {
+        this.skippedCount++;
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Pass each log entry through the configured `pipeline` middleware in order
+   * A failing middleware leaves the entry unchanged outside strict mode.
+   * @private
+   */
+  private async runPipeline(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+  ): Promise<AuditLog[]> {
+    let current = logs;
+    for (const middleware of this.config.pipeline) {
+      const next: AuditLog[] = [];
+      for (const log of current) {
+        try {
+          const result = await middleware(log, context);
+          if (result === undefined) {
+            next.push(log);
+          } else if (result !== null) {
+            next.push(...(Array.isArray(result) ? result : [result]));
+          }
+        } catch (error) {
+          if (this.isStrict([log])) {
+            throw error;
+          }
+          this.config.logError("[AUDIT] Audit pipeline middleware failed:", error);
+          next.push(log);
+        }
+      }
+      current = next;
+    }
+    return current;
+  }
+
+  /**
+   * Encrypt the configured fields before logs leave the logger
+   * Returns null when encryption fails outside strict mode; plaintext is never written.
+   * @private
+   */
+  private async encryptAuditLogs(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+  ): Promise<{ logs: AuditLog[]; context: AuditContext | undefined } | null> {
+    if (!this.config.encryption) return { logs, context };
+
+    try {
+      return await encryptAuditLogs(logs, context, this.config.encryption, (paths, tableName) =>
+        toValuePaths(paths, tableName, this.config),
+      );
+    } catch (error) {
+      await this.emitForLogs(logs, context, ["error", "dropped"], (entries) =>
+        this.emitFailed(error, entries, "encryption_failed"),
+      );
+      if (this.isStrict(logs)) {
+        throw error;
+      }
+      this.config.logError("[AUDIT] Failed to encrypt audit logs:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Strict tables make the whole write strict
+   * @private
+   */
+  private isStrict(logs: AuditLog[]): boolean {
+    return logs.some(
+      (log) => this.config.tables[log.tableName]?.strictMode ?? this.config.strictMode,
+    );
+  }
+
+  /**
+   * Send audit logs to the configured writer
+   * @private
+   */
+  private async dispatchAuditLogs(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+  ): Promise<void> {
+    const strict = this.isStrict(logs);
 
     try {
       if (this.batchedCustomWriter) {
         // Use batched custom writer
-        const writePromise = this.batchedCustomWriter.queueAuditLogs(logs, context);
+        const writePromise = this.batchedCustomWriter.queueAuditLogs(logs, context, strict);
 
         // Wait for write if configured
-        if (this.config.batch?.waitForWrite || this.config.strictMode) {
+        if (this.config.batch?.waitForWrite || strict) {
           await writePromise;
         } else {
           writePromise.catch((error) => {
@@ -351,13 +1063,23 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
         }
       } else if (this.customWriter) {
         // Use custom writer (immediate - no batching)
-        await this.customWriter(logs, context);
+        try {
+          await this.customWriter(logs, context);
+        } catch (error) {
+          await this.emitForLogs(logs, context, ["error", "dropped"], (entries) =>
+            this.emitFailed(error, entries, "write_failed"),
+          );
+          throw error;
+        }
+        await this.emitForLogs(logs, context, ["log", "flush"], (entries) =>
+          this.emitWritten(entries),
+        );
       } else if (this.batchWriter) {
         // Use batch writer (standard)
-        const writePromise = this.batchWriter.queueAuditLogs(logs, context);
+        const writePromise = this.batchWriter.queueAuditLogs(logs, context, strict);
 
         // Wait for write if configured
-        if (this.config.batch?.waitForWrite || this.config.strictMode) {
+        if (this.config.batch?.waitForWrite || strict) {
           await writePromise;
         } else {
           writePromise.catch((error) => {
@@ -366,16 +1088,110 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
         }
       } else if (this.writer) {
         // Use immediate writer (standard)
-        await this.writer.writeAuditLogs(logs, context);
+        await this.writer.writeAuditLogs(logs, context, strict);
       }
     } catch (error) {
-      if (this.config.strictMode) {
+      if (strict) {
         throw error;
       }
       this.config.logError("[AUDIT] Failed to write audit logs:", error);
     }
   }
 
+  /**
+   * Get (or lazily create) the writer bound to a transaction handle
+   * @private
+   */
+  private getTransactionWriter(transaction: AuditTransactionScope): AuditWriter {
+    if (!transaction.writer) {
+      transaction.writer = new AuditWriter(
+        transaction.db,
+        { ...this.config, strictMode: true },
+        {
+          ...this.getWriteHooks(),
+          // Rows inserted through the transaction are announced once it commits
+          onWritten: (entries) => {
+            this.transactionManager.bufferLogs(transaction, [
+              { logs: [], context: undefined, written: entries },
+            ]);
+          },
+        },
+      );
+    }
+    return transaction.writer;
+  }
+
+  /**
+   * Writer callbacks that turn write outcomes into audit events
+   * @private
+   */
+  private getWriteHooks(): AuditWriteHooks {
+    return {
+      returnIds: () => this.events.hasListeners("log", "flush"),
+      onWritten: (entries) => this.emitWritten(entries),
+      onFailed: (error, entries) => this.emitFailed(error, entries, "write_failed"),
+    };
+  }
+
+  /**
+   * Emit `log` (unless emitted at capture) and `flush` for written entries
+   * @private
+   */
+  private emitWritten(entries: AuditEventEntry[]): void {
+    if (this.config.eventTiming === "write") {
+      for (const entry of entries) this.events.emit("log", entry);
+    }
+    this.events.emit("flush", entries);
+  }
+
+  /**
+   * Emit `error` and `dropped` for entries that were not stored
+   * @private
+   */
+  private emitFailed(error: unknown, entries: AuditEventEntry[], reason: AuditDropReason): void {
+    this.events.emit("error", error, entries);
+    this.events.emit("dropped", entries, reason);
+  }
+
+  /**
+   * Emit `dropped` for logs buffered in (or written through) a rolled back transaction
+   * @private
+   */
+  private async emitRolledBack(buffered: BufferedAuditLogs[]): Promise<void> {
+    const written = buffered.flatMap((entry) => entry.written ?? []);
+    if (written.length > 0) {
+      this.events.emit("dropped", written, "rolled_back");
+    }
+    for (const { logs, context } of buffered) {
+      if (logs.length === 0) continue;
+      await this.emitForLogs(logs, context, ["dropped"], (entries) =>
+        this.events.emit("dropped", entries, "rolled_back"),
+      );
+    }
+  }
+
+  /**
+   * Resolve logs the default writers did not resolve (custom writers, capture time)
+   * and pass them to `emit`; skipped when none of `events` has listeners
+   * @private
+   */
+  private async emitForLogs(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+    events: AuditEventName[],
+    emit: (entries: AuditEventEntry[]) => void,
+  ): Promise<void> {
+    if (!this.events.hasListeners(...events)) return;
+
+    try {
+      const userId = await this.config.getUserId();
+      const metadata = await this.config.getMetadata();
+      emit(toAuditLogEntries(logs, context, userId, metadata));
+    } catch (error) {
+      this.config.logError("[AUDIT] Failed to resolve audit event entries:", error);
+    }
+  }
+
   /**
    * Set audit context for current async scope
    *
@@ -530,26 +1346,62 @@ export class AuditLogger<TSchema extends Record<string, unknown> = any> {
   }
 
   /**
-   * Get batch writer stats (only available in batch mode)
+   * Subscribe to audit events in this process (cache invalidation, websockets, indexing)
+   * - "log": one resolved entry, after it was written (see `eventTiming`); `id` is set when
+   *   the default writer inserted it
+   * - "flush": all entries of a successful write
+   * - "error": a write or encryption failure with the affected entries
+   * - "dropped": entries that will not be stored (write or encryption failure, rollback)
    *
-   * @returns Writer statistics or undefined if not in batch mode
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * logger.on("log", (entry) => {
+   *   if (entry.tableName === "products") cache.delete(`product:${entry.recordId}`);
+   * });
+   * ```
+   */
+  on<TEvent extends AuditEventName>(
+    event: TEvent,
+    listener: AuditEventListener<TEvent>,
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<TEvent extends AuditEventName>(event: TEvent, listener: AuditEventListener<TEvent>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Get writer stats
+   * Includes the number of operations skipped by `shouldAuditOperation`; without batching
+   * nothing is queued, so only `skippedCount` changes
+   *
+   * @returns Writer statistics
    *
    * @example
    * ```typescript
    * const stats = logger.getStats();
-   * if (stats) {
-   *   console.log('Queue size:', stats.queueSize);
-   *   console.log('Is writing:', stats.isWriting);
-   * }
+   * console.log('Queue size:', stats.queueSize);
+   * console.log('Skipped:', stats.skippedCount);
    * ```
    */
-  getStats(): BatchAuditWriterStats | BatchedCustomWriterStats | undefined {
+  getStats(): BatchWriterStats {
     if (this.batchWriter) {
-      return this.batchWriter.getStats();
+      return { ...this.batchWriter.getStats(), skippedCount: this.skippedCount };
     }
     if (this.batchedCustomWriter) {
-      return this.batchedCustomWriter.getStats();
+      return { ...this.batchedCustomWriter.getStats(), skippedCount: this.skippedCount };
     }
-    return undefined;
+    return {
+      queueSize: 0,
+      isWriting: false,
+      isShuttingDown: false,
+      skippedCount: this.skippedCount,
+    };
   }
 }
@@ -0,0 +1,88 @@
+import type { AuditLogEntry } from "../types/audit.js";
+
+/**
+ * Why entries did not reach audit storage
+ */
+export type AuditDropReason = "write_failed" | "encryption_failed" | "rolled_back";
+
+/**
+ * Log entry with its resolved context, and the stored row ID when the default writer inserted it
+ */
+export interface AuditEventEntry extends AuditLogEntry {
+  id?: string;
+}
+
+/**
+ * Listener arguments for each audit event
+ */
+export interface AuditEventMap {
+  /** One entry, after it was written (or when captured, see `eventTiming`) */
+  log: [entry: AuditEventEntry];
+  /** All entries of a successful write */
+  flush: [entries: AuditEventEntry[]];
+  /** A write (or encryption) failure */
+  error: [error: unknown, entries: AuditEventEntry[]];
+  /** Entries that will not be stored */
+  dropped: [entries: AuditEventEntry[], reason: AuditDropReason];
+}
+
+export type AuditEventName = keyof AuditEventMap;
+
+export type AuditEventListener<TEvent extends AuditEventName> = (
+  ...args: AuditEventMap[TEvent]
+) => void | Promise<void>;
+
+/**
+ * In-process subscriptions to audit events
+ * Listener errors (and rejected promises) are reported through `logError` and never reach
+ * the audited operation.
+ */
+export class AuditEventEmitter {
+  private listeners = new Map<AuditEventName, Set<AuditEventListener<any>>>();
+
+  constructor(private logError: (message: string, error: unknown) => void) {}
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<TEvent extends AuditEventName>(
+    event: TEvent,
+    listener: AuditEventListener<TEvent>,
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<TEvent extends AuditEventName>(event: TEvent, listener: AuditEventListener<TEvent>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Check whether an event has listeners (to skip building its payload)
+   */
+  hasListeners(...events: AuditEventName[]): boolean {
+    return events.some((event) => (this.listeners.get(event)?.size ?? 0) > 0);
+  }
+
+  /**
+   * Call the listeners of an event without waiting for async ones
+   */
+  emit<TEvent extends AuditEventName>(event: TEvent, ...args: AuditEventMap[TEvent]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        const result = listener(...args);
+        if (result instanceof Promise) {
+          result.catch((error) => this.logError("[AUDIT] Audit event listener failed:", error));
+        }
+      } catch (error) {
+        this.logError("[AUDIT] Audit event listener failed:", error);
+      }
+    }
+  }
+}
@@ -1,6 +1,18 @@
+import type { AuditWriteAction } from "../types/config.js";
 import type { AuditLogger } from "./AuditLogger.js";
-import { getTableName, isTable } from "drizzle-orm";
+import type { AuditTransactionInfo } from "./transaction.js";
+import { isTable, type SQLWrapper, type Table, type WithSubquery } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { getAuditTableName } from "../utils/table-name.js";
+import { extractRawRows, parseRawStatement } from "./raw-sql.js";
+import { describeRelationalRead, describeSelectRead, type ReadDescription } from "./read.js";
+import {
+  buildUpsertReturning,
+  captureUpsertBeforeState,
+  isAuditableUpsert,
+  splitUpsertRecords,
+  stripUpsertFlag,
+} from "./upsert.js";
 
 // Enable debug logging via environment variable
 const DEBUG = process.env.AUDIT_DEBUG === "true";
@@ -32,6 +44,30 @@ type QueryBuilderLike = Record<string, unknown> & {
 
 type QueryMethod = (...args: unknown[]) => QueryBuilderLike;
 
+type ExecutionPlan = {
+  operation: string;
+  tableName: string;
+  queryToExecute: QueryBuilderLike;
+  /** The statement without the injected RETURNING, when one was injected */
+  countQuery: QueryBuilderLike | null;
+  projectResult: (result: unknown) => unknown;
+};
+
+/**
+ * One execution of an audited statement
+ */
+type AuditedExecution = {
+  run: () => Promise<unknown>;
+  /** Runs the statement without the injected RETURNING, for statements logged as a row count */
+  runWithoutReturning?: () => Promise<unknown>;
+  placeholderValues?: Record<string, unknown>;
+};
+
+/**
+ * Audited INSERT/UPDATE/DELETE builders, so `$with().as()` can tell when one is embedded in a CTE
+ */
+const dmlBuilders = new WeakMap<object, { operation: string; tableName: () => string | null }>();
+
 /**
  * Extract table name from Drizzle query builder
  */
@@ -41,7 +77,7 @@ function resolveTableName(table: unknown): string | null {
   }
 
   if (isTable(table)) {
-    return getTableName(table);
+    return getAuditTableName(table);
   }
 
   const metaName =
@@ -55,6 +91,19 @@ function resolveTableName(table: unknown): string | null {
   return null;
 }
 
+/**
+ * Find the Drizzle table object targeted by a query builder
+ */
+function extractTable(queryBuilder: QueryBuilderLike, tableRef?: unknown): Table | null {
+  const candidates = [
+    tableRef,
+    queryBuilder.table,
+    queryBuilder.config?.table,
+    queryBuilder._?.table,
+  ];
+  return (candidates.find((candidate) => isTable(candidate)) as Table | undefined) ?? null;
+}
+
 function extractTableName(queryBuilder: QueryBuilderLike, tableRef?: unknown): string | null {
   try {
     const directRef = resolveTableName(tableRef);
@@ -135,16 +184,98 @@ export function createInterceptedDb<TSchema extends Record<string, unknown>>(
         return createQueryBuilderProxy(prop, original as QueryMethod, target, auditLogger);
       }
 
+      // db.with(...ctes) returns its own insert/update/delete/select factories
+      if (prop === "with" && typeof original === "function") {
+        return createWithProxy(original as (...ctes: unknown[]) => object, target, auditLogger);
+      }
+
+      if (prop === "$with" && typeof original === "function") {
+        return createCteDefinitionProxy(original as Function, auditLogger);
+      }
+
+      // Intercept select builders and relational queries for READ auditing
+      if (prop === "select" || prop === "selectDistinct" || prop === "selectDistinctOn") {
+        return createSelectBuilderProxy(original as QueryMethod, target, auditLogger);
+      }
+
+      if (prop === "query" && original && typeof original === "object") {
+        return createRelationalQueryProxy(original as Record<string, unknown>, auditLogger);
+      }
+
       // Intercept transaction method to maintain context
       if (prop === "transaction") {
         return createTransactionProxy(original as unknown, target, auditLogger);
       }
 
+      // Intercept raw execute() only when raw SQL auditing is enabled
+      if (prop === "execute" && typeof original === "function" && auditLogger.getRawSqlConfig()) {
+        return createRawExecuteProxy(original as Function, target, auditLogger);
+      }
+
       return original;
     },
   }) as PostgresJsDatabase<TSchema>;
 }
 
+/**
+ * Wrap db.with(...ctes) so its query builder factories are audited like the db's own
+ */
+function createWithProxy(
+  originalWith: (...ctes: unknown[]) => object,
+  db: PostgresJsDatabase<any>,
+  auditLogger: AuditLogger,
+) {
+  return function (...ctes: unknown[]) {
+    const factories = originalWith.apply(db, ctes) as Record<string, unknown>;
+
+    return new Proxy(factories, {
+      get(target, prop) {
+        const original = target[prop as string];
+        if (typeof original !== "function") {
+          return original;
+        }
+
+        if (prop === "insert" || prop === "update" || prop === "delete") {
+          return createQueryBuilderProxy(prop, original as QueryMethod, db, auditLogger);
+        }
+
+        if (prop === "select" || prop === "selectDistinct" || prop === "selectDistinctOn") {
+          return createSelectBuilderProxy(original as QueryMethod, db, auditLogger);
+        }
+
+        return original;
+      },
+    });
+  };
+}
+
+/**
+ * Wrap db.$with(alias) to reject an audited INSERT/UPDATE/DELETE that becomes a CTE
+ * Data-modifying CTEs run as part of the outer query, so their rows cannot be audited
+ */
+function createCteDefinitionProxy(originalWith: Function, auditLogger: AuditLogger) {
+  return function (...args: unknown[]) {
+    const cteBuilder = originalWith(...args) as { as: (query: unknown) => unknown };
+
+    return {
+      ...cteBuilder,
+      as(query: unknown) {
+        const dml =
+          typeof query === "object" && query !== null ? dmlBuilders.get(query) : undefined;
+        const tableName = dml?.tableName();
+        const action = dml?.operation.toUpperCase() as AuditWriteAction;
+        // Reject the CTE before the unaudited write can run
+        if (dml && tableName && auditLogger.shouldAuditAction(tableName, action)) {
+          throw new Error(
+            `${action} on ${tableName} inside $with() cannot be audited; run it through db.with(...) instead`,
+          );
+        }
+        return cteBuilder.as(query);
+      },
+    };
+  };
+}
+
 /**
  * Create a proxy for insert/update/delete query builders
  */
@@ -173,13 +304,101 @@ function createExecutionProxy(
   db: PostgresJsDatabase<any>,
   auditLogger: AuditLogger,
   tableRef?: unknown,
+  initialConflictTarget?: unknown,
 ) {
+  let conflictTarget = initialConflictTarget; // Set by onConflictDoUpdate() on inserts
   let hasIntercepted = false; // Prevent double interception
   let hasReturning = false; // Track if user called .returning()
   let shouldAugmentReturning = false;
   let projectUserResult: ((result: unknown) => unknown) | null = null;
   let fullReturningBuilder: QueryBuilderLike | null = null;
 
+  /**
+   * Decide how an execution of this builder is audited
+   * Returns null when the table is unknown or not audited
+   */
+  const planExecution = (target: QueryBuilderLike): ExecutionPlan | null => {
+    const tableName = extractTableName(target, tableRef);
+    debug(`Intercepting ${operation} on ${tableName}`);
+
+    if (!tableName || !auditLogger.shouldAudit(tableName)) {
+      debug(
+        `Skipping audit for ${tableName} (shouldAudit: ${tableName ? auditLogger.shouldAudit(tableName) : "no table"})`,
+      );
+      return null;
+    }
+
+    // Column names let values be stored by column (see `valueKeyStyle`)
+    const table = extractTable(target, tableRef);
+    if (table) {
+      auditLogger.registerTableColumns(tableName, table);
+    }
+
+    // Upserts return a hidden flag telling inserted rows from updated rows
+    const isUpsert = operation === "insert" && isAuditableUpsert(tableRef, conflictTarget);
+
+    // Upserts log INSERT and UPDATE rows; skip only when neither action is audited
+    const actions = (
+      isUpsert ? ["INSERT", "UPDATE"] : [operation.toUpperCase()]
+    ) as AuditWriteAction[];
+    if (!actions.some((action) => auditLogger.shouldAuditAction(tableName, action))) {
+      debug(`Skipping audit for ${operation} on ${tableName} (action not audited)`);
+      return null;
+    }
+
+    // For INSERT/UPDATE/DELETE, automatically add .returning() if not present
+    let queryToExecute = target;
+    let countQuery: QueryBuilderLike | null = null;
+    if (operation === "insert" || operation === "update" || operation === "delete") {
+      if (isUpsert && typeof target.returning === "function") {
+        debug(`Injecting upsert .returning() for ${operation} on ${tableName}`);
+        queryToExecute = target.returning(buildUpsertReturning(tableRef));
+      } else if (!hasReturning) {
+        debug(`Auto-injecting .returning() for ${operation} on ${tableName}`);
+        if (typeof target.returning === "function") {
+          // returning() modifies the builder; keep a copy for whole-table statements that
+          // may only be counted (see `noWhereClausePolicy`)
+          if (operation !== "insert" && !extractWhereClause(target)) {
+            countQuery = copyBuilder(target);
+          }
+          queryToExecute = target.returning();
+        }
+      } else if (shouldAugmentReturning && typeof target.returning === "function") {
+        // User selected partial columns; execute with full returning for audit,
+        // then project back to user's selection.
+        queryToExecute = fullReturningBuilder ?? target.returning();
+      }
+    }
+
+    const project = projectUserResult;
+    return {
+      operation: isUpsert ? "upsert" : operation,
+      tableName,
+      queryToExecute,
+      countQuery,
+      projectResult: (result) =>
+        project ? project(result) : isUpsert ? stripUpsertFlag(result) : result,
+    };
+  };
+
+  const runPlan = async (plan: ExecutionPlan, execution: AuditedExecution) => {
+    const result = await executeWithAudit(
+      plan.operation,
+      plan.tableName,
+      plan.queryToExecute,
+      execution,
+      db,
+      auditLogger,
+      tableRef,
+      conflictTarget,
+    );
+    const projected = plan.projectResult(result);
+    debug(
+      `${operation} on ${plan.tableName} completed, result count: ${Array.isArray(projected) ? projected.length : 1}`,
+    );
+    return projected;
+  };
+
   const proxy = new Proxy(queryBuilder, {
     get(target, prop) {
       const original = (target as Record<string, unknown>)[prop as string];
@@ -212,6 +431,7 @@ function createExecutionProxy(
               db,
               auditLogger,
               tableRef,
+              conflictTarget,
             );
           }
 
@@ -233,67 +453,41 @@ function createExecutionProxy(
           }
 
           hasIntercepted = true;
-          const tableName = extractTableName(target, tableRef);
-          debug(`Intercepting ${operation} on ${tableName} via ${String(prop)}`);
+          const plan = planExecution(target);
 
           // If we can't extract table name or shouldn't audit, just execute normally
-          if (!tableName || !auditLogger.shouldAudit(tableName)) {
-            debug(
-              `Skipping audit for ${tableName} (shouldAudit: ${tableName ? auditLogger.shouldAudit(tableName) : "no table"})`,
-            );
+          if (!plan) {
             return (original as Function | undefined)?.apply(target, args);
           }
 
-          // For INSERT/UPDATE/DELETE, automatically add .returning() if not present
-          let queryToExecute = target;
-          if (operation === "insert" || operation === "update" || operation === "delete") {
-            if (!hasReturning) {
-              debug(`Auto-injecting .returning() for ${operation} on ${tableName}`);
-              if (typeof target.returning === "function") {
-                queryToExecute = target.returning();
-              }
-            } else if (shouldAugmentReturning && typeof target.returning === "function") {
-              // User selected partial columns; execute with full returning for audit,
-              // then project back to user's selection.
-              queryToExecute = fullReturningBuilder ?? target.returning();
-            }
-          }
+          const { tableName, queryToExecute, countQuery } = plan;
 
           // Create a promise that executes with audit
           const auditedPromise = (async () => {
             debug(`Executing ${operation} on ${tableName} with audit`);
-            return executeWithAudit(
-              operation,
-              tableName,
-              queryToExecute,
-              () => {
-                // Execute the query - Drizzle queries are thenable, so we can await them
-                return Promise.resolve(queryToExecute);
-              },
-              [],
-              db,
-              auditLogger,
-              tableRef,
-            );
+            return runPlan(plan, {
+              // Execute the query - Drizzle queries are thenable, so we can await them
+              run: () => Promise.resolve(queryToExecute),
+              runWithoutReturning: countQuery ? () => Promise.resolve(countQuery) : undefined,
+            });
           })();
 
           // Now apply the promise method to our audited promise
           return auditedPromise.then(
             (result) => {
-              const projected = projectUserResult ? projectUserResult(result) : result;
-              debug(
-                `${operation} on ${tableName} completed, result count: ${Array.isArray(projected) ? projected.length : 1}`,
-              );
               if (prop === "then" && args[0]) {
-                return (args[0] as Function)(projected);
+                return (args[0] as Function)(result);
               }
               if (prop === "finally" && args[0]) {
                 (args[0] as Function)();
               }
-              return projected;
+              return result;
             },
             (error) => {
               debug(`${operation} on ${tableName} failed:`, error.message);
+              if (prop === "then" && args[1]) {
+                return (args[1] as Function)(error);
+              }
               if (prop === "catch" && args[0]) {
                 return (args[0] as Function)(error);
               }
@@ -306,9 +500,63 @@ function createExecutionProxy(
         };
       }
 
+      // Explicit .execute(placeholderValues) runs the statement once per call
+      if (prop === "execute" && typeof original === "function") {
+        return function (placeholderValues?: Record<string, unknown>) {
+          const plan = planExecution(target);
+          if (!plan) {
+            return (original as Function).call(target, placeholderValues);
+          }
+
+          const { queryToExecute, countQuery } = plan;
+          return runPlan(plan, {
+            run: () =>
+              (queryToExecute as unknown as { execute: Function }).execute(placeholderValues),
+            runWithoutReturning: countQuery
+              ? () => (countQuery as unknown as { execute: Function }).execute(placeholderValues)
+              : undefined,
+            placeholderValues,
+          });
+        };
+      }
+
+      // Prepared statements are audited on every execution with that execution's placeholders
+      if (prop === "prepare" && typeof original === "function") {
+        return function (...args: unknown[]) {
+          const plan = planExecution(target);
+          if (!plan) {
+            return (original as Function).apply(target, args);
+          }
+
+          const prepared = (
+            plan.queryToExecute as unknown as { prepare: (...args: unknown[]) => object }
+          ).prepare(...args) as Record<string, unknown>;
+
+          return new Proxy(prepared, {
+            get(preparedTarget, preparedProp) {
+              const preparedOriginal = preparedTarget[preparedProp as string];
+              if (preparedProp !== "execute" || typeof preparedOriginal !== "function") {
+                return preparedOriginal;
+              }
+
+              return function (placeholderValues?: Record<string, unknown>) {
+                return runPlan(plan, {
+                  run: () => (preparedOriginal as Function).call(preparedTarget, placeholderValues),
+                  placeholderValues,
+                });
+              };
+            },
+          });
+        };
+      }
+
       // For fluent API methods (where, set, values, returning, etc.), continue wrapping
       if (typeof original === "function") {
         return function (...args: unknown[]) {
+          if (prop === "onConflictDoUpdate") {
+            conflictTarget = (args[0] as { target?: unknown } | undefined)?.target;
+          }
+
           const result = (original as Function).apply(target, args);
 
           // If it returns a new builder, wrap it too (preserve tableRef)
@@ -319,6 +567,7 @@ function createExecutionProxy(
               db,
               auditLogger,
               tableRef,
+              conflictTarget,
             );
           }
 
@@ -335,6 +584,165 @@ function createExecutionProxy(
     },
   });
 
+  dmlBuilders.set(proxy, {
+    operation,
+    tableName: () => extractTableName(queryBuilder, tableRef),
+  });
+
+  return proxy;
+}
+
+/**
+ * Create a proxy for select builders that audits reads once `.from(table)` is known
+ */
+function createSelectBuilderProxy(
+  originalMethod: QueryMethod,
+  db: PostgresJsDatabase<any>,
+  auditLogger: AuditLogger,
+) {
+  return function (...args: unknown[]) {
+    const selectBuilder = originalMethod.apply(db, args);
+
+    return new Proxy(selectBuilder, {
+      get(target, prop) {
+        const original = (target as Record<string, unknown>)[prop as string];
+        if (prop !== "from" || typeof original !== "function") {
+          return original;
+        }
+
+        return function (source: unknown, ...rest: unknown[]) {
+          const query = (original as Function).call(target, source, ...rest) as QueryBuilderLike;
+          const tableName = isTable(source) ? getAuditTableName(source) : null;
+          if (!tableName || !auditLogger.shouldAuditReads(tableName)) {
+            return query;
+          }
+
+          // Joins and selections change the row shape, so describe the query when it runs
+          return createReadProxy(query, auditLogger, tableName, (select) =>
+            describeSelectRead(select, source),
+          );
+        };
+      },
+    });
+  };
+}
+
+/**
+ * Create a proxy for `db.query` that audits findMany/findFirst on tables with auditReads
+ */
+function createRelationalQueryProxy(query: Record<string, unknown>, auditLogger: AuditLogger) {
+  return new Proxy(query, {
+    get(target, prop) {
+      const builder = target[prop as string] as Record<string, unknown> | undefined;
+      const tableName = isTable(builder?.table) ? getAuditTableName(builder.table) : null;
+      if (!builder || !tableName || !auditLogger.shouldAuditReads(tableName)) {
+        return builder;
+      }
+
+      return new Proxy(builder, {
+        get(builderTarget, method) {
+          const original = builderTarget[method as string];
+          if ((method !== "findMany" && method !== "findFirst") || typeof original !== "function") {
+            return original;
+          }
+
+          return function (config?: unknown) {
+            const relationalQuery = (original as Function).call(builderTarget, config);
+            const description = describeRelationalRead(builderTarget.table, config);
+            return createReadProxy(relationalQuery, auditLogger, tableName, () => description);
+          };
+        },
+      });
+    },
+  });
+}
+
+/**
+ * Create a proxy that logs READ entries for rows returned by a query
+ */
+function createReadProxy(
+  queryBuilder: QueryBuilderLike,
+  auditLogger: AuditLogger,
+  tableName: string,
+  describe: (target: QueryBuilderLike) => ReadDescription,
+) {
+  let hasIntercepted = false;
+
+  const auditRead = async (target: QueryBuilderLike, run: () => Promise<unknown>) => {
+    const result = await run();
+    const { columns, getRecords } = describe(target);
+    const records = getRecords(result);
+    if (records.length > 0) {
+      await auditLogger.logRead(tableName, records, columns);
+    }
+    return result;
+  };
+
+  const proxy = new Proxy(queryBuilder, {
+    get(target, prop) {
+      const original = (target as Record<string, unknown>)[prop as string];
+
+      if (prop === "then" || prop === "catch" || prop === "finally") {
+        return function (...args: unknown[]) {
+          if (hasIntercepted) {
+            return (original as Function | undefined)?.apply(target, args);
+          }
+          hasIntercepted = true;
+          debug(`Intercepting read on ${tableName} via ${String(prop)}`);
+
+          const auditedPromise = auditRead(target, () => Promise.resolve(target as unknown));
+
+          if (prop === "then") {
+            return auditedPromise.then(
+              args[0] as (value: unknown) => unknown,
+              args[1] as (reason: unknown) => unknown,
+            );
+          }
+          if (prop === "catch") {
+            return auditedPromise.catch(args[0] as (reason: unknown) => unknown);
+          }
+          return auditedPromise.finally(args[0] as () => void);
+        };
+      }
+
+      if (prop === "execute" && typeof original === "function") {
+        return function (placeholderValues?: Record<string, unknown>) {
+          return auditRead(target, () => (original as Function).call(target, placeholderValues));
+        };
+      }
+
+      // Prepared reads are audited on every execution
+      if (prop === "prepare" && typeof original === "function") {
+        return function (...args: unknown[]) {
+          const prepared = (original as Function).apply(target, args) as Record<string, unknown>;
+          return new Proxy(prepared, {
+            get(preparedTarget, preparedProp) {
+              const preparedOriginal = preparedTarget[preparedProp as string];
+              if (preparedProp !== "execute" || typeof preparedOriginal !== "function") {
+                return preparedOriginal;
+              }
+              return function (placeholderValues?: Record<string, unknown>) {
+                return auditRead(target, () =>
+                  (preparedOriginal as Function).call(preparedTarget, placeholderValues),
+                );
+              };
+            },
+          });
+        };
+      }
+
+      // Fluent methods (where, orderBy, limit, joins) return the same builder
+      if (typeof original === "function") {
+        return function (...args: unknown[]) {
+          const result = (original as Function).apply(target, args);
+          return result === target ? proxy : result;
+        };
+      }
+
+      return original;
+    },
+  });
+
   return proxy;
 }
 
@@ -345,39 +753,233 @@ async function executeWithAudit(
   operation: string,
   tableName: string,
   queryBuilder: QueryBuilderLike,
-  originalExecute: unknown,
-  executeArgs: unknown[],
+  execution: AuditedExecution,
   db: PostgresJsDatabase<any>,
   auditLogger: AuditLogger,
   tableRef?: unknown,
+  conflictTarget?: unknown,
 ): Promise<unknown> {
   let beforeState: unknown[] = [];
+  const executeQuery = execution.run;
+  const { placeholderValues } = execution;
+
+  // UPDATE/DELETE without WHERE touch the whole table; apply the configured policy
+  const noWhereClausePolicy =
+    (operation === "update" || operation === "delete") && !extractWhereClause(queryBuilder)
+      ? auditLogger.getNoWhereClausePolicy()
+      : null;
+
+  if (noWhereClausePolicy === "reject") {
+    throw new Error(
+      `${operation.toUpperCase()} on ${tableName} without a WHERE clause rejected by noWhereClausePolicy`,
+    );
+  }
+
+  // Upserts are INSERT statements; their rows are checked again as INSERT/UPDATE entries
+  const action = operation === "upsert" ? "INSERT" : operation.toUpperCase();
+  if (!(await auditLogger.shouldAuditOperation(tableName, action))) {
+    debug(`Skipping audit for ${operation} on ${tableName} (shouldAuditOperation)`);
+    return executeQuery();
+  }
+
+  // Statements logged as a row count skip the injected RETURNING and use the driver's count
+  const executeSummary = async () => {
+    const result = await (execution.runWithoutReturning ?? executeQuery)();
+    await logBulkOperation(operation, tableName, countAffectedRows(result), auditLogger);
+    return result;
+  };
+
+  if (noWhereClausePolicy === "summary") {
+    return executeSummary();
+  }
+
+  // Tables past the capture limit are only summarized; check before pulling back every row
+  let sample: unknown[] | null = null;
+  if (noWhereClausePolicy === "capture" && execution.runWithoutReturning) {
+    sample = await captureBeforeState(
+      tableName,
+      queryBuilder,
+      db,
+      auditLogger,
+      tableRef,
+      false,
+      placeholderValues,
+    );
+    if (sample.length > auditLogger.getNoWhereClauseCaptureLimit()) {
+      debug(`${operation} on ${tableName} exceeds the capture limit, logging a summary`);
+      return executeSummary();
+    }
+  }
+
+  const completeAudit = async (before: unknown[], result: unknown) => {
+    if (noWhereClausePolicy === "capture") {
+      const captureLimit = auditLogger.getNoWhereClauseCaptureLimit();
+      if (before.length > captureLimit || countRows(result) > captureLimit) {
+        debug(`${operation} on ${tableName} exceeded the capture limit, logging a summary`);
+        await logBulkOperation(operation, tableName, countRows(result), auditLogger);
+        return;
+      }
+    }
+    await createAuditLogs(operation, tableName, before, result, auditLogger);
+  };
+
+  // Lock the captured rows so no concurrent writer can change them before the UPDATE.
+  // Prepared statements are bound to their session, so each execution runs the statement's
+  // builder with its placeholder values inside the locking transaction instead.
+  if (
+    operation === "update" &&
+    auditLogger.shouldCaptureBeforeState(tableName) &&
+    auditLogger.shouldLockBeforeState()
+  ) {
+    const locked = await executeLockedUpdate(
+      tableName,
+      queryBuilder,
+      db,
+      auditLogger,
+      tableRef,
+      placeholderValues,
+    );
+    if (locked) {
+      await completeAudit(locked.beforeState, locked.result);
+      return locked.result;
+    }
+    // Strict tables reject the UPDATE rather than capture an unlocked before state
+    auditLogger.handleAuditError(
+      tableName,
+      new Error(
+        `[AUDIT] Cannot lock the before state of UPDATE on ${tableName}; using a plain SELECT`,
+      ),
+    );
+  }
 
   // For UPDATE only, capture the "before" state if configured
-  if (operation === "update" && auditLogger.shouldCaptureBeforeState()) {
-    beforeState = await captureBeforeState(tableName, queryBuilder, db, tableRef);
+  if (operation === "update" && auditLogger.shouldCaptureBeforeState(tableName)) {
+    beforeState =
+      sample ??
+      (await captureBeforeState(
+        tableName,
+        queryBuilder,
+        db,
+        auditLogger,
+        tableRef,
+        false,
+        placeholderValues,
+      ));
+  }
+
+  // For upserts, capture the rows that may be updated on conflict
+  if (operation === "upsert" && auditLogger.shouldCaptureBeforeState(tableName)) {
+    try {
+      beforeState = await captureUpsertBeforeState(
+        queryBuilder as { config?: { values?: unknown; select?: boolean } },
+        db,
+        tableRef,
+        conflictTarget,
+        placeholderValues,
+      );
+    } catch (error) {
+      auditLogger.reportError("[AUDIT] Failed to capture upsert before state:", error);
+    }
   }
 
   // Execute the actual operation
   // For DELETE, we rely on .returning() which is auto-injected
-  let result: unknown;
-  if (typeof originalExecute === "function" && (originalExecute as Function).length === 0) {
-    // It's a wrapper function we created
-    result = await (originalExecute as Function)();
-  } else if (originalExecute) {
-    // It's the original method from Drizzle
-    result = await (originalExecute as Function).apply(queryBuilder, executeArgs);
-  } else {
-    // No execute method, the queryBuilder itself is thenable
-    result = await Promise.resolve(queryBuilder as unknown);
-  }
+  const result = await executeQuery();
 
   // Create audit logs based on operation type
-  await createAuditLogs(operation, tableName, beforeState, result, auditLogger);
+  await completeAudit(beforeState, result);
 
   return result;
 }
 
+/**
+ * Run SELECT ... FOR UPDATE and the UPDATE on the same transaction
+ * Opens an implicit transaction unless already running inside one.
+ * Returns null when the query builder cannot be moved onto a transaction.
+ */
+async function executeLockedUpdate(
+  tableName: string,
+  queryBuilder: QueryBuilderLike,
+  db: PostgresJsDatabase<any>,
+  auditLogger: AuditLogger,
+  tableRef?: unknown,
+  placeholderValues?: Record<string, unknown>,
+): Promise<{ beforeState: unknown[]; result: unknown } | null> {
+  if (isTransactionHandle(db)) {
+    const beforeState = await captureBeforeState(
+      tableName,
+      queryBuilder,
+      db,
+      auditLogger,
+      tableRef,
+      true,
+      placeholderValues,
+    );
+    const result = await runQuery(queryBuilder, placeholderValues);
+    return { beforeState, result };
+  }
+
+  if (!("session" in queryBuilder) || typeof db.transaction !== "function") {
+    return null;
+  }
+
+  return db.transaction(async (tx) => {
+    const beforeState = await captureBeforeState(
+      tableName,
+      queryBuilder,
+      tx,
+      auditLogger,
+      tableRef,
+      true,
+      placeholderValues,
+    );
+    const result = await runQuery(bindToSession(queryBuilder, tx), placeholderValues);
+    return { beforeState, result };
+  });
+}
+
+/**
+ * Run a query builder, passing placeholder values when the caller provided them
+ */
+function runQuery(query: unknown, placeholderValues?: Record<string, unknown>): Promise<unknown> {
+  if (placeholderValues !== undefined) {
+    return (query as { execute: (values: Record<string, unknown>) => Promise<unknown> }).execute(
+      placeholderValues,
+    );
+  }
+  return Promise.resolve(query);
+}
+
+function isTransactionHandle(db: unknown): boolean {
+  return typeof (db as { rollback?: unknown }).rollback === "function";
+}
+
+/**
+ * Copy a query builder with its own config, so later builder calls leave the copy unchanged
+ */
+function copyBuilder(queryBuilder: QueryBuilderLike, overrides: Record<string, unknown> = {}) {
+  const copy = Object.create(Object.getPrototypeOf(queryBuilder)) as QueryBuilderLike & {
+    _prepare?: () => { execute: (...args: unknown[]) => Promise<unknown> };
+    authToken?: unknown;
+  };
+  Object.assign(copy, queryBuilder, { config: { ...queryBuilder.config } }, overrides);
+  // Drizzle's execute() is an arrow function bound to the original builder
+  if (typeof copy._prepare === "function") {
+    copy.execute = (placeholderValues?: unknown) =>
+      copy._prepare!().execute(placeholderValues, copy.authToken);
+  }
+  return copy;
+}
+
+/**
+ * Copy a query builder so it executes through the transaction's session
+ */
+function bindToSession(queryBuilder: QueryBuilderLike, tx: PostgresJsDatabase<any>) {
+  return copyBuilder(queryBuilder, {
+    session: (tx as unknown as { session: unknown }).session,
+  });
+}
+
 /**
  * Capture current state before UPDATE/DELETE
  */
@@ -385,15 +987,21 @@ async function captureBeforeState(
   tableName: string,
   queryBuilder: QueryBuilderLike,
   db: PostgresJsDatabase<any>,
+  auditLogger: AuditLogger,
   tableRef?: unknown,
+  lock = false,
+  placeholderValues?: Record<string, unknown>,
 ): Promise<unknown[]> {
   try {
     const whereClause = extractWhereClause(queryBuilder);
+    const noWhereClausePolicy = whereClause ? null : auditLogger.getNoWhereClausePolicy();
 
-    if (!whereClause) {
+    if (noWhereClausePolicy && noWhereClausePolicy !== "capture") {
       // If no WHERE clause, we can't safely query before state
       // This might be a full table update/delete
-      console.warn(`No WHERE clause found for ${tableName}, skipping before state capture`);
+      if (noWhereClausePolicy === "warn") {
+        console.warn(`No WHERE clause found for ${tableName}, skipping before state capture`);
+      }
       return [];
     }
 
@@ -403,10 +1011,20 @@ async function captureBeforeState(
       queryBuilder.table ||
       queryBuilder._?.table ||
       queryBuilder.config?.table;
-    const result = await db
-      .select()
-      .from(fromTarget as any)
-      .where(whereClause as any);
+    // Keep the statement's CTEs so the WHERE clause can reference them
+    const withList = (queryBuilder.config as { withList?: WithSubquery[] } | undefined)?.withList;
+    const selectRoot = withList?.length ? db.with(...withList) : db;
+    const query = whereClause
+      ? selectRoot
+          .select()
+          .from(fromTarget as any)
+          .where(whereClause as any)
+      : // Read one row past the limit so callers can tell the table was too large
+        selectRoot
+          .select()
+          .from(fromTarget as any)
+          .limit(auditLogger.getNoWhereClauseCaptureLimit() + 1);
+    const result = await runQuery(lock ? query.for("update") : query, placeholderValues);
 
     return Array.isArray(result) ? result : [result];
   } catch (error) {
@@ -415,6 +1033,38 @@ async function captureBeforeState(
   }
 }
 
+/**
+ * Log a single summary entry for an UPDATE/DELETE that touched the whole table
+ */
+async function logBulkOperation(
+  operation: string,
+  tableName: string,
+  affectedRows: number,
+  auditLogger: AuditLogger,
+): Promise<void> {
+  await auditLogger.log({
+    action: operation === "update" ? "BULK_UPDATE" : "BULK_DELETE",
+    tableName,
+    recordId: "*",
+    metadata: { affectedRows },
+  });
+}
+
+function countRows(result: unknown): number {
+  return Array.isArray(result) ? result.length : result ? 1 : 0;
+}
+
+/**
+ * Count the rows a statement affected from the driver result
+ * node-postgres reports `rowCount`, postgres.js `count`; other drivers return the rows
+ */
+function countAffectedRows(result: unknown): number {
+  const { rowCount, count } = (result ?? {}) as { rowCount?: unknown; count?: unknown };
+  if (typeof rowCount === "number") return rowCount;
+  if (typeof count === "number") return count;
+  return countRows(result);
+}
+
 /**
  * Create audit logs after operation completes
  */
@@ -465,18 +1115,31 @@ async function createAuditLogs(
     case "insert":
       if (recordObjects.length > 0) {
         debug(`Logging ${recordObjects.length} INSERT operations`);
-        await auditLogger.logInsert(tableName as any, recordObjects as any);
+        await auditLogger.logInsert(tableName, recordObjects);
       }
       break;
 
+    case "upsert": {
+      const { inserted, updated } = splitUpsertRecords(recordObjects);
+      if (inserted.length > 0) {
+        debug(`Logging ${inserted.length} INSERT operations (upsert)`);
+        await auditLogger.logInsert(tableName, inserted);
+      }
+      if (updated.length > 0) {
+        debug(`Logging ${updated.length} UPDATE operations (upsert)`);
+        await auditLogger.logUpdate(tableName, beforeObjects, updated);
+      }
+      break;
+    }
+
     case "update":
       if (recordObjects.length > 0 && beforeObjects.length > 0) {
         debug(`Logging ${recordObjects.length} UPDATE operations`);
-        await auditLogger.logUpdate(tableName as any, beforeObjects as any, recordObjects as any);
+        await auditLogger.logUpdate(tableName, beforeObjects, recordObjects);
       } else if (recordObjects.length > 0 && beforeObjects.length === 0) {
         // Before state not captured; log with best-effort values
         debug(`Logging ${recordObjects.length} UPDATE operations (without before state)`);
-        await auditLogger.logUpdate(tableName as any, [], recordObjects as any);
+        await auditLogger.logUpdate(tableName, [], recordObjects);
       } else {
         debug(
           `Skipping UPDATE audit: records=${recordObjects.length}, beforeState=${beforeObjects.length}`,
@@ -489,7 +1152,7 @@ async function createAuditLogs(
       // The deleted data is in the result
       if (recordObjects.length > 0) {
         debug(`Logging ${recordObjects.length} DELETE operations`);
-        await auditLogger.logDelete(tableName as any, recordObjects as any);
+        await auditLogger.logDelete(tableName, recordObjects);
       } else {
         debug("Skipping DELETE audit: no records matched or returned");
       }
@@ -497,6 +1160,69 @@ async function createAuditLogs(
   }
 }
 
+/**
+ * Wrap db.execute() to audit raw INSERT/UPDATE/DELETE statements
+ */
+function createRawExecuteProxy(originalExecute: Function, db: unknown, auditLogger: AuditLogger) {
+  return async function (query: unknown, ...rest: unknown[]) {
+    const rawSqlConfig = auditLogger.getRawSqlConfig();
+    const statement =
+      rawSqlConfig && (typeof query === "string" || isSqlWrapper(query))
+        ? parseRawStatement(query)
+        : { kind: "other" as const };
+
+    if (statement.kind === "unparsed") {
+      if (rawSqlConfig?.onUnparsed === "throw") {
+        throw new Error(`[AUDIT] Raw SQL statement not audited: ${statement.reason}`);
+      }
+      if (rawSqlConfig?.onUnparsed === "warn") {
+        auditLogger.reportError(
+          "[AUDIT] Raw SQL statement not audited:",
+          new Error(statement.reason),
+        );
+      }
+    }
+
+    if (
+      statement.kind !== "dml" ||
+      !auditLogger.shouldAuditAction(
+        statement.tableName,
+        statement.operation.toUpperCase() as AuditWriteAction,
+      )
+    ) {
+      debug("Raw execute not audited:", statement.kind);
+      return originalExecute.call(db, query, ...rest);
+    }
+
+    const result = await originalExecute.call(db, statement.query, ...rest);
+    // The statement has run; an audit failure must not turn it into a rejection
+    try {
+      // UPDATE statements have no before state; logUpdate stores the returned rows
+      await createAuditLogs(
+        statement.operation,
+        statement.tableName,
+        [],
+        auditLogger.toPropertyRows(
+          statement.tableName,
+          extractRawRows(result).filter(isRecordObject),
+        ),
+        auditLogger,
+      );
+    } catch (error) {
+      auditLogger.handleAuditError(statement.tableName, error);
+    }
+    return result;
+  };
+}
+
+function isSqlWrapper(value: unknown): value is SQLWrapper {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as SQLWrapper).getSQL === "function"
+  );
+}
+
 /**
  * Wrap transaction method to maintain audit context
  */
@@ -505,27 +1231,52 @@ function createTransactionProxy(originalTransaction: any, db: any, auditLogger:
     callback: (tx: PostgresJsDatabase<any>) => Promise<unknown>,
     options?: unknown,
   ) {
-    // Generate transaction ID
-    const transactionId = crypto.randomUUID();
+    // Nested tx.transaction() calls run as savepoints of the enclosing transaction
+    const parent = auditLogger.getTransaction();
+    const isNested = parent !== undefined && parent.db === db;
+    const transaction: AuditTransactionInfo = isNested
+      ? {
+          transactionId: parent.transactionId,
+          savepointId: crypto.randomUUID(),
+          parentSavepointId: parent.savepointId,
+          depth: parent.depth + 1,
+        }
+      : { transactionId: crypto.randomUUID(), depth: 0 };
 
-    // Merge transaction ID into current context
+    // Merge transaction identity into current context
     const currentContext = auditLogger.getContext() || {};
     const transactionContext = {
       ...currentContext,
-      transactionId,
+      transactionId: transaction.transactionId,
+      savepointId: transaction.savepointId,
+      parentSavepointId: transaction.parentSavepointId,
+      transactionDepth: transaction.depth,
     };
 
     // Run transaction with audit context
     return auditLogger.withContext(transactionContext, async () => {
-      return (originalTransaction as Function).call(
-        db,
-        async (tx: PostgresJsDatabase<any>) => {
-          // Wrap the transaction db instance too
-          const wrappedTx = createInterceptedDb(tx, auditLogger);
-          return callback(wrappedTx);
-        },
-        options,
-      );
+      let result: unknown;
+      try {
+        result = await (originalTransaction as Function).call(
+          db,
+          async (tx: PostgresJsDatabase<any>) => {
+            // Wrap the transaction db instance too
+            const wrappedTx = createInterceptedDb(tx, auditLogger);
+            // Expose the raw handle so atomic mode can write audit rows through it
+            return auditLogger.runInTransaction({ ...transaction, db: tx }, () =>
+              callback(wrappedTx),
+            );
+          },
+          options,
+        );
+      } catch (error) {
+        // Drop logs buffered for work that was rolled back
+        await auditLogger.completeTransaction(transaction, false);
+        throw error;
+      }
+
+      await auditLogger.completeTransaction(transaction, true);
+      return result;
     });
   };
 }
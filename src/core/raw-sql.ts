@@ -0,0 +1,136 @@
+import { sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { qualifyTableName } from "../utils/table-name.js";
+
+/**
+ * Result of parsing a raw DML statement passed to `db.execute()`
+ */
+export type RawStatement =
+  | {
+      kind: "dml";
+      operation: "insert" | "update" | "delete";
+      tableName: string;
+      query: SQL;
+    }
+  | { kind: "unparsed"; reason: string }
+  | { kind: "other" };
+
+const IDENTIFIER = String.raw`(?:"((?:[^"]|"")+)"|([a-zA-Z_][\w$]*))`;
+const TABLE_REFERENCE = `${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})?`;
+const DML_PATTERNS: Array<{ operation: "insert" | "update" | "delete"; pattern: RegExp }> = [
+  { operation: "insert", pattern: new RegExp(`^insert\\s+into\\s+${TABLE_REFERENCE}`, "i") },
+  { operation: "update", pattern: new RegExp(`^update\\s+(?:only\\s+)?${TABLE_REFERENCE}`, "i") },
+  {
+    operation: "delete",
+    pattern: new RegExp(`^delete\\s+from\\s+(?:only\\s+)?${TABLE_REFERENCE}`, "i"),
+  },
+];
+
+let dialect: PgDialect | null = null;
+
+/**
+ * Render a raw query to SQL text (parameters stay as placeholders)
+ */
+function renderQuery(query: SQL): string {
+  dialect ??= new PgDialect();
+  return dialect.sqlToQuery(query).sql;
+}
+
+/**
+ * Resolve an identifier the way Postgres does (unquoted names fold to lower case)
+ */
+function toIdentifier(quoted: string | undefined, plain: string | undefined): string {
+  return quoted !== undefined ? quoted.replaceAll('""', '"') : plain!.toLowerCase();
+}
+
+function stripLeadingComments(text: string): string {
+  let rest = text.trimStart();
+  for (;;) {
+    if (rest.startsWith("--")) {
+      const end = rest.indexOf("\n");
+      rest = end === -1 ? "" : rest.slice(end + 1).trimStart();
+    } else if (rest.startsWith("/*")) {
+      const end = rest.indexOf("*/");
+      rest = end === -1 ? "" : rest.slice(end + 2).trimStart();
+    } else {
+      return rest;
+    }
+  }
+}
+
+/**
+ * Parse a statement passed to `db.execute()`
+ * Single INSERT/UPDATE/DELETE statements get `RETURNING *` appended so the
+ * affected rows can be audited. Anything that looks like DML but cannot be
+ * rewritten safely is reported as unparsed.
+ */
+export function parseRawStatement(query: string | SQLWrapper): RawStatement {
+  const original = typeof query === "string" ? sql.raw(query) : query.getSQL();
+  let text = stripLeadingComments(renderQuery(original)).trimEnd();
+
+  const keyword = /^[a-zA-Z]+/.exec(text)?.[0]?.toLowerCase();
+  if (!keyword || !["insert", "update", "delete", "with", "merge"].includes(keyword)) {
+    return { kind: "other" };
+  }
+
+  if (keyword === "with" || keyword === "merge") {
+    return { kind: "unparsed", reason: `${keyword.toUpperCase()} statements are not supported` };
+  }
+
+  const hasTrailingSemicolon = text.endsWith(";");
+  if (hasTrailingSemicolon) {
+    text = text.slice(0, -1).trimEnd();
+  }
+  if (text.includes(";")) {
+    return { kind: "unparsed", reason: "multiple statements are not supported" };
+  }
+
+  const match = DML_PATTERNS.map(({ operation, pattern }) => ({
+    operation,
+    match: pattern.exec(text),
+  })).find((candidate) => candidate.match);
+  if (!match?.match) {
+    return { kind: "unparsed", reason: "could not identify the target table" };
+  }
+
+  const [, quotedFirst, plainFirst, quotedSecond, plainSecond] = match.match;
+  const first = toIdentifier(quotedFirst, plainFirst);
+  const hasSchema = quotedSecond !== undefined || plainSecond !== undefined;
+  const tableName = hasSchema
+    ? qualifyTableName(first, toIdentifier(quotedSecond, plainSecond))
+    : first;
+
+  if (/\breturning\b/i.test(text)) {
+    return { kind: "unparsed", reason: "statements with an existing RETURNING clause" };
+  }
+
+  if (hasTrailingSemicolon) {
+    // A trailing semicolon can only be dropped from plain strings
+    if (typeof query !== "string") {
+      return { kind: "unparsed", reason: "trailing semicolon in sql`...` template" };
+    }
+    return {
+      kind: "dml",
+      operation: match.operation,
+      tableName,
+      query: sql.raw(`${text} returning *`),
+    };
+  }
+
+  return {
+    kind: "dml",
+    operation: match.operation,
+    tableName,
+    query: sql`${original} returning *`,
+  };
+}
+
+/**
+ * Extract returned rows from a driver result
+ * (node-postgres returns `{ rows }`, postgres-js returns an array)
+ */
+export function extractRawRows(result: unknown): unknown[] {
+  if (Array.isArray(result)) return result;
+  const rows = (result as { rows?: unknown } | null | undefined)?.rows;
+  return Array.isArray(rows) ? rows : [];
+}
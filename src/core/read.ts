@@ -0,0 +1,74 @@
+import { getTableColumns } from "drizzle-orm";
+
+/**
+ * What a read query projects and how to get the audited table's rows from its result
+ */
+export interface ReadDescription {
+  columns: string[];
+  getRecords: (result: unknown) => Record<string, unknown>[];
+}
+
+type SelectLike = {
+  tableName?: unknown;
+  isPartialSelect?: boolean;
+  config?: { fields?: Record<string, unknown>; joins?: unknown[] };
+};
+
+type RelationalQueryConfig = {
+  columns?: Record<string, boolean | undefined>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toRows(result: unknown): unknown[] {
+  return Array.isArray(result) ? result : result ? [result] : [];
+}
+
+/**
+ * Describe a `select().from(table)` query at execution time
+ * Joins without an explicit selection nest each table's row under its name
+ */
+export function describeSelectRead(query: unknown, tableRef: unknown): ReadDescription {
+  const select = query as SelectLike;
+  const fields = select.config?.fields ?? {};
+  const baseName = typeof select.tableName === "string" ? select.tableName : undefined;
+  const isNested = !select.isPartialSelect && !!select.config?.joins?.length && !!baseName;
+  const selection = isNested ? fields[baseName!] : fields;
+
+  const tableColumns = getTableColumns(tableRef as any) as Record<string, unknown>;
+  const columns = new Set<string>();
+  for (const field of Object.values(isRecord(selection) ? selection : {})) {
+    // Only columns of the audited table count; other selected fields are not its data
+    const key = Object.keys(tableColumns).find((name) => tableColumns[name] === field);
+    if (key) columns.add(key);
+  }
+
+  return {
+    columns: [...columns],
+    getRecords: (result) => {
+      const rows = toRows(result);
+      return (isNested ? rows.map((row) => isRecord(row) && row[baseName!]) : rows).filter(
+        isRecord,
+      );
+    },
+  };
+}
+
+/**
+ * Describe a relational `db.query.<table>.findMany/findFirst` query
+ * Only the table's own columns are described; rows loaded through `with` are not
+ */
+export function describeRelationalRead(tableRef: unknown, queryConfig: unknown): ReadDescription {
+  const tableColumns = Object.keys(getTableColumns(tableRef as any));
+  const selected = (queryConfig as RelationalQueryConfig | undefined)?.columns ?? {};
+  const included = tableColumns.filter((column) => selected[column] === true);
+  const columns =
+    included.length > 0 ? included : tableColumns.filter((column) => selected[column] !== false);
+
+  return {
+    columns,
+    getRecords: (result) => toRows(result).filter(isRecord),
+  };
+}
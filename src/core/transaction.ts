@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { AuditWriter } from "../storage/writer.js";
+import type { AuditLog, AuditLogEntry } from "../types/audit.js";
+import type { AuditContext } from "../types/config.js";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+/**
+ * Identity of an audited transaction (or nested savepoint)
+ */
+export interface AuditTransactionInfo {
+  /**
+   * Root transaction ID shared by all logs captured inside the transaction,
+   * including nested savepoints
+   */
+  transactionId: string;
+
+  /**
+   * Savepoint ID for nested transactions (undefined for the root transaction)
+   */
+  savepointId?: string;
+
+  /**
+   * Savepoint ID of the enclosing nested transaction (undefined when the parent is the root)
+   */
+  parentSavepointId?: string;
+
+  /**
+   * Nesting depth (0 for the root transaction)
+   */
+  depth: number;
+}
+
+/**
+ * State of an audited transaction for the current async scope
+ */
+export interface AuditTransactionScope extends AuditTransactionInfo {
+  /**
+   * Raw (unwrapped) transaction handle
+   */
+  db: PostgresJsDatabase<any>;
+
+  /**
+   * Writer bound to the transaction handle (created lazily in atomic mode)
+   */
+  writer?: AuditWriter;
+}
+
+/**
+ * Logs held back until their transaction commits
+ */
+export interface BufferedAuditLogs {
+  logs: AuditLog[];
+  context: AuditContext | undefined;
+  /** Entries already inserted through the transaction (atomic mode), announced on commit */
+  written?: AuditLogEntry[];
+}
+
+/**
+ * Tracks the active audited transaction using AsyncLocalStorage
+ * Allows audit writes to join the caller's transaction, or to be
+ * buffered per transaction ID (and savepoint) until it commits
+ */
+export class AuditTransactionManager {
+  private storage = new AsyncLocalStorage<AuditTransactionScope>();
+  private buffers = new Map<string, BufferedAuditLogs[]>();
+
+  /**
+   * Get the active transaction scope
+   */
+  getTransaction(): AuditTransactionScope | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Run a function inside a transaction scope
+   */
+  runInTransaction<T>(scope: AuditTransactionScope, fn: () => T): T {
+    return this.storage.run(scope, fn);
+  }
+
+  /**
+   * Hold logs for a transaction (or savepoint) until it completes
+   */
+  bufferLogs(transaction: AuditTransactionInfo, buffered: BufferedAuditLogs[]): void {
+    if (buffered.length === 0) return;
+
+    const key = getBufferKey(transaction);
+    const existing = this.buffers.get(key);
+    if (existing) {
+      existing.push(...buffered);
+    } else {
+      this.buffers.set(key, [...buffered]);
+    }
+  }
+
+  /**
+   * Remove and return the logs buffered for a transaction (or savepoint)
+   */
+  takeBufferedLogs(transaction: AuditTransactionInfo): BufferedAuditLogs[] {
+    const key = getBufferKey(transaction);
+    const buffered = this.buffers.get(key) ?? [];
+    this.buffers.delete(key);
+    return buffered;
+  }
+
+  /**
+   * Move logs of a released savepoint into its parent's buffer
+   */
+  mergeIntoParent(transaction: AuditTransactionInfo, buffered: BufferedAuditLogs[]): void {
+    this.bufferLogs(
+      {
+        transactionId: transaction.transactionId,
+        savepointId: transaction.parentSavepointId,
+        depth: transaction.depth - 1,
+      },
+      buffered,
+    );
+  }
+}
+
+function getBufferKey(transaction: AuditTransactionInfo): string {
+  return transaction.savepointId
+    ? `${transaction.transactionId}:${transaction.savepointId}`
+    : transaction.transactionId;
+}
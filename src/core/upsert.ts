@@ -0,0 +1,133 @@
+import {
+  and,
+  eq,
+  getTableColumns,
+  is,
+  isTable,
+  or,
+  Param,
+  Placeholder,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+/**
+ * Hidden RETURNING column telling inserted rows (true) from updated rows (false)
+ */
+export const UPSERT_INSERTED_FLAG = "__auditUpsertInserted";
+
+/**
+ * Check whether an insert with ON CONFLICT DO UPDATE can be audited as an upsert
+ */
+export function isAuditableUpsert(tableRef: unknown, conflictTarget: unknown): boolean {
+  return conflictTarget !== undefined && isTable(tableRef);
+}
+
+/**
+ * Build a RETURNING selection with all table columns plus the inserted/updated flag
+ * Rows created by the INSERT have `xmax = 0`; rows updated on conflict do not
+ */
+export function buildUpsertReturning(tableRef: unknown): Record<string, unknown> {
+  return {
+    ...getTableColumns(tableRef as any),
+    [UPSERT_INSERTED_FLAG]: sql<boolean>`(xmax = 0)`,
+  };
+}
+
+/**
+ * Split upsert RETURNING rows into inserted and updated records (flag removed)
+ */
+export function splitUpsertRecords(records: Record<string, unknown>[]): {
+  inserted: Record<string, unknown>[];
+  updated: Record<string, unknown>[];
+} {
+  const inserted: Record<string, unknown>[] = [];
+  const updated: Record<string, unknown>[] = [];
+
+  for (const record of records) {
+    const { [UPSERT_INSERTED_FLAG]: wasInserted, ...rest } = record;
+    // Rows without the flag (e.g. driver dropped it) are treated as inserts
+    if (wasInserted === false || wasInserted === "false" || wasInserted === "f") {
+      updated.push(rest);
+    } else {
+      inserted.push(rest);
+    }
+  }
+
+  return { inserted, updated };
+}
+
+/**
+ * Remove the inserted/updated flag from a result before returning it to the caller
+ */
+export function stripUpsertFlag(result: unknown): unknown {
+  if (Array.isArray(result)) {
+    return result.map(stripUpsertFlag);
+  }
+  if (typeof result !== "object" || result === null || !(UPSERT_INSERTED_FLAG in result)) {
+    return result;
+  }
+  const { [UPSERT_INSERTED_FLAG]: _, ...rest } = result as Record<string, unknown>;
+  return rest;
+}
+
+/**
+ * Capture rows that the upsert may update, matched on the conflict target
+ * Returns an empty array when the incoming values cannot be matched safely
+ * (e.g. INSERT ... SELECT, or SQL expressions in conflict target columns)
+ * Placeholders are resolved from the execution's placeholder values
+ */
+export async function captureUpsertBeforeState(
+  queryBuilder: { config?: { values?: unknown; select?: boolean } },
+  db: PostgresJsDatabase<any>,
+  tableRef: unknown,
+  conflictTarget: unknown,
+  placeholderValues?: Record<string, unknown>,
+): Promise<unknown[]> {
+  const values = queryBuilder.config?.values;
+  if (queryBuilder.config?.select || !Array.isArray(values)) {
+    return [];
+  }
+
+  const columns = getTableColumns(tableRef as any);
+  const targetColumns = Array.isArray(conflictTarget) ? conflictTarget : [conflictTarget];
+  const targetKeys = targetColumns.map((column) =>
+    Object.keys(columns).find((key) => columns[key] === column),
+  );
+  if (targetKeys.some((key) => key === undefined)) {
+    return [];
+  }
+
+  const conditions: SQL[] = [];
+  for (const row of values as Record<string, unknown>[]) {
+    const matchers: SQL[] = [];
+    for (const key of targetKeys as string[]) {
+      const value = row[key];
+      // Defaults and SQL expressions cannot be matched before execution
+      if (!is(value, Param)) break;
+      if (is(value.value, Placeholder)) {
+        // Prepared statements resolve placeholders per execution
+        const name = value.value.name;
+        if (!placeholderValues || !(name in placeholderValues)) break;
+        matchers.push(eq(columns[key]!, placeholderValues[name]));
+        continue;
+      }
+      matchers.push(eq(columns[key]!, value.value));
+    }
+    if (matchers.length === targetKeys.length) {
+      conditions.push(and(...matchers)!);
+    }
+  }
+
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const result = await db
+    .select()
+    .from(tableRef as any)
+    .where(or(...conditions));
+
+  return Array.isArray(result) ? result : [result];
+}
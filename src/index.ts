@@ -12,12 +12,48 @@ export type {
   AuditConfig,
   AuditContext,
   AuditColumnMap,
+  AuditCustomWriter,
   AuditColumnKey,
+  AuditDiscoveryConfig,
+  AuditEncryptionConfig,
+  AuditEncryptionKey,
+  AuditKeyProvider,
+  AuditMiddleware,
+  AuditOperation,
+  AuditTableInput,
+  AuditTableOptions,
+  AuditTablePattern,
+  AuditTables,
+  AuditValueSerializer,
+  AuditWriteAction,
   BatchWriterStats,
+  RedactionStrategy,
+  UpdateValuesMode,
+  ValueKeyStyle,
 } from "./types/config.js";
-export type { AuditAction, AuditLog, AuditLogEntry, StoredAuditLog } from "./types/audit.js";
+export type {
+  AuditAction,
+  AuditDiffValues,
+  AuditLog,
+  AuditLogEntry,
+  AuditLogValues,
+  AuditValueDiff,
+  EncryptedValue,
+  StoredAuditLog,
+  TruncatedValue,
+} from "./types/audit.js";
+export type {
+  AuditDropReason,
+  AuditEventEntry,
+  AuditEventListener,
+  AuditEventMap,
+  AuditEventName,
+} from "./core/events.js";
 export type { BatchAuditWriterStats } from "./storage/batch-writer.js";
 export type { BatchedCustomWriterStats } from "./storage/batched-custom-writer.js";
+export type { AuditTransactionNode } from "./utils/migration.js";
+export type { JsonPatchOperation } from "./utils/json-patch.js";
+export type { TaggedAuditValue } from "./utils/value-serializers.js";
 
 // Re-export schema and migration
 export {
@@ -28,7 +64,26 @@ export {
 } from "./storage/schema.js";
 
 // Re-export utilities
-export { initializeAuditLogging, checkAuditSetup, getAuditStats } from "./utils/migration.js";
+export {
+  initializeAuditLogging,
+  checkAuditSetup,
+  getAuditStats,
+  getTransactionTree,
+} from "./utils/migration.js";
+export { isAuditDiffValues } from "./utils/serializer.js";
+export { applyJsonPatch, createJsonPatch, reverseJsonPatch } from "./utils/json-patch.js";
+export { createStaticKeyProvider, decryptAuditLog, isEncryptedValue } from "./utils/encryption.js";
+export {
+  DEFAULT_VALUE_SERIALIZERS,
+  bigintSerializer,
+  binarySerializer,
+  dateSerializer,
+  decimalSerializer,
+  mapSerializer,
+  reviveAuditValues,
+  setSerializer,
+} from "./utils/value-serializers.js";
+export { isTruncatedValue } from "./utils/truncation.js";
 
 /**
  * Create an audit logger instance with automatic interception
@@ -226,19 +281,36 @@ export function createAuditLogger<TSchema extends Record<string, unknown>>(
     shutdown: logger.shutdown.bind(logger),
 
     /**
-     * Get batch writer stats (only available in batch mode)
+     * Get writer stats (queue fields stay at zero without batching)
      *
-     * @returns Writer statistics or undefined if not in batch mode
+     * @returns Writer statistics, including `skippedCount`
      *
      * @example
      * ```typescript
      * const stats = auditLogger.getStats();
-     * if (stats) {
-     *   console.log('Queue size:', stats.queueSize);
-     * }
+     * console.log('Queue size:', stats.queueSize);
      * ```
      */
     getStats: logger.getStats.bind(logger),
+
+    /**
+     * Subscribe to "log", "flush", "error" or "dropped" audit events
+     *
+     * @returns Function that removes the listener
+     *
+     * @example
+     * ```typescript
+     * auditLogger.on('log', (entry) => {
+     *   io.to(`record:${entry.recordId}`).emit('audit', entry);
+     * });
+     * ```
+     */
+    on: logger.on.bind(logger),
+
+    /**
+     * Remove a listener added with `on`
+     */
+    off: logger.off.bind(logger),
   };
 }
 
@@ -2,8 +2,9 @@ import type { AuditLog, AuditLogEntry } from "../types/audit.js";
 import type { AuditColumnMap, AuditContext } from "../types/config.js";
 import { sql } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
-import { mergeMetadata } from "../utils/metadata.js";
+import { getTransactionMetadata, mergeMetadata } from "../utils/metadata.js";
 import { getAuditInsertColumns } from "./column-map.js";
+import { withStoredIds, type AuditWriteHooks } from "./writer.js";
 
 export interface BatchAuditWriterStats {
   queueSize: number;
@@ -89,6 +90,7 @@ export class BatchAuditWriter {
       getMetadata: () => Record<string, unknown> | Promise<Record<string, unknown>>;
       logError: (message: string, error: unknown) => void;
     },
+    private hooks: AuditWriteHooks = {},
   ) {
     // Start flush timer
     this.scheduleFlush();
@@ -99,16 +101,21 @@ export class BatchAuditWriter {
 
   /**
    * Add audit logs to the queue (non-blocking)
+   * @param strict - Flush and wait for the write (defaults to the configured `strictMode`)
    */
-  async queueAuditLogs(logs: AuditLog[], context: AuditContext | undefined): Promise<void> {
+  async queueAuditLogs(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+    strict = this.config.strictMode,
+  ): Promise<void> {
     if (this.isShuttingDown) {
-      throw new Error("BatchAuditWriter is shutting down");
+      this.rejectLogs(new Error("BatchAuditWriter is shutting down"), logs);
     }
 
     if (logs.length === 0) return;
 
     if (this.queue.length + logs.length > this.config.maxQueueSize) {
-      throw new Error("BatchAuditWriter queue capacity exceeded");
+      this.rejectLogs(new Error("BatchAuditWriter queue capacity exceeded"), logs);
     }
 
     // Resolve user ID and metadata once for the entire batch
@@ -121,7 +128,13 @@ export class BatchAuditWriter {
         this.queue.push({
           log: {
             ...log,
-            metadata: mergeMetadata(metadata, context?.metadata, log.metadata) ?? undefined,
+            metadata:
+              mergeMetadata(
+                metadata,
+                context?.metadata,
+                log.metadata,
+                getTransactionMetadata(context),
+              ) ?? undefined,
           },
           context: {
             ...context,
@@ -147,12 +160,12 @@ export class BatchAuditWriter {
       });
 
       // Wait for flush in strict/sync mode
-      if (this.config.strictMode || this.config.waitForWrite) {
+      if (strict || this.config.waitForWrite) {
         await flushPromise;
       }
     }
 
-    const shouldAwait = this.config.waitForWrite || this.config.strictMode;
+    const shouldAwait = this.config.waitForWrite || strict;
 
     if (!shouldAwait) {
       // Log errors instead of completely swallowing them
@@ -227,17 +240,17 @@ export class BatchAuditWriter {
   private async writeToDatabase(items: QueuedLog[]): Promise<void> {
     if (items.length === 0) return;
 
-    try {
-      // Convert to entries
-      const entries: AuditLogEntry[] = items.map((item) => ({
-        ...item.log,
-        userId: item.context?.userId,
-        ipAddress: item.context?.ipAddress,
-        userAgent: item.context?.userAgent,
-        metadata: item.log.metadata,
-        transactionId: item.context?.transactionId,
-      }));
+    // Convert to entries
+    const entries: AuditLogEntry[] = items.map((item) => ({
+      ...item.log,
+      userId: item.context?.userId,
+      ipAddress: item.context?.ipAddress,
+      userAgent: item.context?.userAgent,
+      metadata: item.log.metadata,
+      transactionId: item.context?.transactionId,
+    }));
 
+    try {
       // Build values for bulk insert
       const columns = getAuditInsertColumns(this.config.auditColumnMap);
       const values = entries.map((entry) => {
@@ -257,21 +270,30 @@ export class BatchAuditWriter {
         .map((column) => `"${column.name}" ${column.type}`)
         .join(", ");
 
-      await this.db.execute(sql`
+      const returnIds = this.hooks.returnIds?.() ?? false;
+      const returning = returnIds
+        ? sql` RETURNING ${sql.identifier(this.config.auditColumnMap.id)}`
+        : sql``;
+
+      const result = await this.db.execute(sql`
         INSERT INTO ${sql.identifier(this.config.auditTable)} (
           ${insertColumns}
         )
         SELECT
           ${insertColumns}
-        FROM jsonb_to_recordset(${JSON.stringify(values)}::jsonb) AS t(${sql.raw(recordsetColumns)})
+        FROM jsonb_to_recordset(${JSON.stringify(values)}::jsonb) AS t(${sql.raw(recordsetColumns)})${returning}
       `);
 
       // Resolve all promises
       items.forEach((item) => item.resolve());
+      this.hooks.onWritten?.(
+        returnIds ? withStoredIds(entries, result, this.config.auditColumnMap.id) : entries,
+      );
     } catch (error) {
       // Always log the actual error before rejecting
       this.lastError = error as Error;
       this.logError("[AUDIT] Database write failed:", error);
+      this.hooks.onFailed?.(error, entries);
 
       // Reject all promises
       items.forEach((item) => item.reject(error as Error));
@@ -331,6 +353,14 @@ export class BatchAuditWriter {
     return this.lastError;
   }
 
+  /**
+   * Report logs that could not be queued and throw
+   */
+  private rejectLogs(error: Error, logs: AuditLog[]): never {
+    this.hooks.onFailed?.(error, logs);
+    throw error;
+  }
+
   private logError(message: string, error: unknown): void {
     this.config.logError(message, error);
   }
@@ -1,5 +1,5 @@
 import type { AuditLog } from "../types/audit.js";
-import type { AuditContext } from "../types/config.js";
+import type { AuditContext, AuditCustomWriter } from "../types/config.js";
 
 export interface BatchedCustomWriterStats {
   queueSize: number;
@@ -7,6 +7,14 @@ export interface BatchedCustomWriterStats {
   isShuttingDown: boolean;
 }
 
+/**
+ * Callbacks reporting the outcome of custom writer calls (used for audit events)
+ */
+export interface CustomWriteHooks {
+  onWritten?: (logs: AuditLog[], context: AuditContext | undefined) => void;
+  onFailed?: (error: unknown, logs: AuditLog[], context: AuditContext | undefined) => void;
+}
+
 interface QueuedLog {
   log: AuditLog;
   context: AuditContext | undefined;
@@ -71,16 +79,7 @@ export class BatchedCustomWriter {
   private activeWritePromise: Promise<void> | null = null;
 
   constructor(
-    private customWriter: (
-      logs: Array<{
-        action: string;
-        tableName: string;
-        recordId: string;
-        values?: Record<string, unknown>;
-        metadata?: Record<string, unknown>;
-      }>,
-      context: AuditContext | undefined,
-    ) => Promise<void> | void,
+    private customWriter: AuditCustomWriter,
     private config: {
       batchSize: number;
       maxQueueSize: number;
@@ -89,6 +88,7 @@ export class BatchedCustomWriter {
       waitForWrite: boolean;
       logError: (message: string, error: unknown) => void;
     },
+    private hooks: CustomWriteHooks = {},
   ) {
     // Start flush timer
     this.scheduleFlush();
@@ -99,16 +99,21 @@ export class BatchedCustomWriter {
 
   /**
    * Add audit logs to the queue (non-blocking)
+   * @param strict - Flush and wait for the write (defaults to the configured `strictMode`)
    */
-  async queueAuditLogs(logs: AuditLog[], context: AuditContext | undefined): Promise<void> {
+  async queueAuditLogs(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+    strict = this.config.strictMode,
+  ): Promise<void> {
     if (this.isShuttingDown) {
-      throw new Error("BatchedCustomWriter is shutting down");
+      this.rejectLogs(new Error("BatchedCustomWriter is shutting down"), logs, context);
     }
 
     if (logs.length === 0) return;
 
     if (this.queue.length + logs.length > this.config.maxQueueSize) {
-      throw new Error("BatchedCustomWriter queue capacity exceeded");
+      this.rejectLogs(new Error("BatchedCustomWriter queue capacity exceeded"), logs, context);
     }
 
     // Create promises for each log
@@ -127,7 +132,7 @@ export class BatchedCustomWriter {
     const shouldFlushNow = this.queue.length >= this.config.batchSize;
 
     // Trigger flush if queue is full, or if caller expects sync semantics
-    if (shouldFlushNow || this.config.waitForWrite || this.config.strictMode) {
+    if (shouldFlushNow || this.config.waitForWrite || strict) {
       const flushPromise = this.flush();
 
       // Log errors instead of silently swallowing
@@ -135,12 +140,12 @@ export class BatchedCustomWriter {
         this.logError("[AUDIT] Custom writer flush failed:", error);
       });
 
-      if (this.config.strictMode || this.config.waitForWrite) {
+      if (strict || this.config.waitForWrite) {
         await flushPromise;
       }
     }
 
-    const shouldAwaitPromises = this.config.strictMode || this.config.waitForWrite;
+    const shouldAwaitPromises = strict || this.config.waitForWrite;
 
     if (!shouldAwaitPromises) {
       // Log errors instead of completely swallowing them
@@ -234,9 +239,11 @@ export class BatchedCustomWriter {
 
           // Resolve all promises in this group
           groupItems.forEach((item) => item.resolve());
+          this.hooks.onWritten?.(logs, context);
         } catch (error) {
           // Log error before rejecting
           this.logError("[AUDIT] Custom writer execution failed:", error);
+          this.hooks.onFailed?.(error, logs, context);
 
           // Reject all promises in this group
           groupItems.forEach((item) => item.reject(error as Error));
@@ -310,6 +317,14 @@ export class BatchedCustomWriter {
     };
   }
 
+  /**
+   * Report logs that could not be queued and throw
+   */
+  private rejectLogs(error: Error, logs: AuditLog[], context: AuditContext | undefined): never {
+    this.hooks.onFailed?.(error, logs, context);
+    throw error;
+  }
+
   private logError(message: string, error: unknown): void {
     this.config.logError(message, error);
   }
@@ -1,3 +1,4 @@
+import type { AuditLogValues } from "../types/audit.js";
 import type { AuditColumnMap } from "../types/config.js";
 import { bigserial, index, jsonb, pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
 
@@ -58,7 +59,7 @@ export const auditLogs = pgTable(
     recordId: varchar("record_id", { length: 255 }).notNull(),
 
     // Data changes
-    values: jsonb("values"),
+    values: jsonb("values").$type<AuditLogValues>(),
 
     // When it happened
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
@@ -163,7 +164,7 @@ export function createAuditLogsTable(
       action: varchar("action", { length: 255 }).notNull(),
       tableName: varchar("table_name", { length: 255 }).notNull(),
       recordId: varchar("record_id", { length: 255 }).notNull(),
-      values: jsonb("values"),
+      values: jsonb("values").$type<AuditLogValues>(),
       createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
       metadata: jsonb("metadata"),
       transactionId: varchar("transaction_id", { length: 255 }),
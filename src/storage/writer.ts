@@ -2,9 +2,35 @@ import type { AuditLog, AuditLogEntry } from "../types/audit.js";
 import type { AuditContext, NormalizedConfig } from "../types/config.js";
 import { sql } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
-import { mergeMetadata } from "../utils/metadata.js";
+import { extractRawRows } from "../core/raw-sql.js";
+import { toAuditLogEntries } from "../utils/metadata.js";
 import { getAuditInsertColumns } from "./column-map.js";
 
+/**
+ * Callbacks reporting the outcome of writes (used for audit events)
+ */
+export interface AuditWriteHooks {
+  /** Append `RETURNING <id>` so written entries carry their stored ID */
+  returnIds?: () => boolean;
+  onWritten?: (entries: Array<AuditLogEntry & { id?: string }>) => void;
+  onFailed?: (error: unknown, entries: AuditLogEntry[]) => void;
+}
+
+/**
+ * Pair inserted entries with the IDs returned by `RETURNING` (in insert order)
+ */
+export function withStoredIds(
+  entries: AuditLogEntry[],
+  result: unknown,
+  idColumn: string,
+): Array<AuditLogEntry & { id?: string }> {
+  const rows = extractRawRows(result) as Array<Record<string, unknown> | undefined>;
+  return entries.map((entry, index) => {
+    const id = rows[index]?.[idColumn];
+    return id === undefined || id === null ? entry : { ...entry, id: String(id) };
+  });
+}
+
 /**
  * Writes audit logs to the database
  */
@@ -12,30 +38,31 @@ export class AuditWriter {
   constructor(
     private db: PostgresJsDatabase<any>,
     private config: NormalizedConfig,
+    private hooks: AuditWriteHooks = {},
   ) {}
 
   /**
    * Write audit logs to the database
+   * @param strict - Rethrow write failures (defaults to the configured `strictMode`)
    */
-  async writeAuditLogs(logs: AuditLog[], context: AuditContext | undefined): Promise<void> {
+  async writeAuditLogs(
+    logs: AuditLog[],
+    context: AuditContext | undefined,
+    strict = this.config.strictMode,
+  ): Promise<void> {
     if (logs.length === 0) return;
 
+    let entries: AuditLogEntry[] = logs;
     try {
       const userId = await this.config.getUserId();
       const metadata = await this.config.getMetadata();
+      entries = toAuditLogEntries(logs, context, userId, metadata);
 
-      const entries: AuditLogEntry[] = logs.map((log) => ({
-        ...log,
-        userId: userId || context?.userId,
-        ipAddress: context?.ipAddress,
-        userAgent: context?.userAgent,
-        metadata: mergeMetadata(metadata, context?.metadata, log.metadata) ?? undefined,
-        transactionId: context?.transactionId,
-      }));
-
-      await this.insertAuditLogs(entries);
+      const written = await this.insertAuditLogs(entries);
+      this.hooks.onWritten?.(written);
     } catch (error) {
-      if (this.config.strictMode) {
+      this.hooks.onFailed?.(error, entries);
+      if (strict) {
         throw error;
       }
       // Log error but don't fail the operation
@@ -46,7 +73,9 @@ export class AuditWriter {
   /**
    * Insert audit log entries into the database
    */
-  private async insertAuditLogs(entries: AuditLogEntry[]): Promise<void> {
+  private async insertAuditLogs(
+    entries: AuditLogEntry[],
+  ): Promise<Array<AuditLogEntry & { id?: string }>> {
     const tableName = this.config.auditTable;
     const columns = getAuditInsertColumns(this.config.auditColumnMap);
 
@@ -66,13 +95,19 @@ export class AuditWriter {
     );
     const recordsetColumns = columns.map((column) => `"${column.name}" ${column.type}`).join(", ");
 
-    await this.db.execute(sql`
+    const returnIds = this.hooks.returnIds?.() ?? false;
+    const returning = returnIds
+      ? sql` RETURNING ${sql.identifier(this.config.auditColumnMap.id)}`
+      : sql``;
+
+    const result = await this.db.execute(sql`
       INSERT INTO ${sql.identifier(tableName)} (
         ${insertColumns}
       )
       SELECT
         ${insertColumns}
-      FROM jsonb_to_recordset(${JSON.stringify(values)}::jsonb) AS t(${sql.raw(recordsetColumns)})
+      FROM jsonb_to_recordset(${JSON.stringify(values)}::jsonb) AS t(${sql.raw(recordsetColumns)})${returning}
     `);
+    return returnIds ? withStoredIds(entries, result, this.config.auditColumnMap.id) : entries;
   }
 }
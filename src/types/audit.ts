@@ -1,7 +1,58 @@
+import type { JsonPatchOperation } from "../utils/json-patch.js";
+
 /**
  * Type of database operation
  */
-export type AuditAction = "INSERT" | "UPDATE" | "DELETE" | "READ" | (string & {}); // Allow custom actions
+export type AuditAction =
+  | "INSERT"
+  | "UPDATE"
+  | "DELETE"
+  | "READ"
+  | "BULK_UPDATE"
+  | "BULK_DELETE"
+  | (string & {}); // Allow custom actions
+
+/**
+ * Old and new value of a field changed by an UPDATE ("diff" updateValuesMode)
+ */
+export interface AuditValueDiff<T = unknown> {
+  old: T;
+  new: T;
+}
+
+/**
+ * UPDATE values stored in "diff" updateValuesMode: `{ field: { old, new } }`
+ */
+export type AuditDiffValues = Record<string, AuditValueDiff>;
+
+/**
+ * Shape of the stored `values` column: row values, field diffs in "diff" mode,
+ * or JSON Patch operations in "patch" mode
+ */
+export type AuditLogValues = Record<string, unknown> | AuditDiffValues | JsonPatchOperation[];
+
+/**
+ * AES-256-GCM envelope that replaces an encrypted field value
+ * `kid` names the key used, so entries written before a key rotation stay readable.
+ */
+export interface EncryptedValue {
+  $encrypted: "aes-256-gcm";
+  kid: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Replaces a value larger than `maxFieldBytes` (or the whole `values` of an entry over
+ * `maxEntryBytes`); `size` is the byte length of the original JSON
+ */
+export interface TruncatedValue {
+  $truncated: true;
+  preview: string;
+  sha256: string;
+  size: number;
+}
 
 /**
  * Internal representation of an audit log entry (before storage)
@@ -10,7 +61,7 @@ export interface AuditLog {
   action: AuditAction;
   tableName: string;
   recordId: string;
-  values?: Record<string, unknown>;
+  values?: AuditLogValues;
   metadata?: Record<string, unknown>; // Add metadata to individual logs
 }
 
@@ -37,7 +88,7 @@ export interface StoredAuditLog {
   action: AuditAction;
   tableName: string;
   recordId: string;
-  values: Record<string, unknown> | null;
+  values: AuditLogValues | null;
   metadata: Record<string, unknown> | null;
   transactionId: string | null;
   createdAt: Date;
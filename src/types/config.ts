@@ -1,6 +1,14 @@
+import type { AuditLog } from "./audit.js";
 import type { Table } from "drizzle-orm";
 
-type TableName<TTable> = TTable extends { _: { name: infer N } } ? N : never;
+// Tables outside `public` are identified as `schema.table`
+type TableName<TTable> = TTable extends { _: { name: infer N extends string; schema: infer S } }
+  ? S extends string
+    ? S extends "public"
+      ? N
+      : `${S}.${N}`
+    : N
+  : never;
 type TableColumns<TTable> = TTable extends { _: { columns: infer C } }
   ? C extends Record<string, unknown>
     ? C
@@ -27,18 +35,150 @@ export type AuditTableRecord<
   TName extends AuditTableName<TSchema>,
 > = Partial<TableSelect<SchemaTable<TSchema, TName>>>;
 
+/**
+ * A column name, optionally followed by a dot path into its JSON value
+ * @example "email" | "settings.theme" | "profile.addresses[].street"
+ */
+export type AuditFieldPath<TColumn extends string> =
+  | TColumn
+  | `${TColumn}.${string}`
+  | `${TColumn}[]`
+  | `${TColumn}[].${string}`;
+
 export type AuditFieldConfig<TSchema extends Record<string, unknown>> = {
-  [K in AuditTableName<TSchema>]?: Array<keyof TableColumns<SchemaTable<TSchema, K>> & string>;
+  [K in AuditTableName<TSchema>]?: Array<
+    AuditFieldPath<keyof TableColumns<SchemaTable<TSchema, K>> & string>
+  >;
+};
+
+/**
+ * Write actions that can be audited per table
+ */
+export type AuditWriteAction = "INSERT" | "UPDATE" | "DELETE";
+
+export type UpdateValuesMode = "changed" | "full" | "diff" | "patch";
+
+/**
+ * Keys used in stored values: Drizzle property keys, database column names, or both
+ */
+export type ValueKeyStyle = "property" | "column" | "both";
+
+/**
+ * Audit settings for one table
+ */
+export type AuditTableSettings<TTable> = {
+  primaryKey: TableColumnName<TTable> | TableColumnName<TTable>[];
+  /**
+   * Log READ entries for rows returned by `select()` and `db.query.<table>.findMany/findFirst`
+   * @default false
+   */
+  auditReads?: boolean;
+  /**
+   * Write actions audited for this table (upserts count as INSERT/UPDATE per row,
+   * statements without a WHERE clause as UPDATE/DELETE)
+   * @default ["INSERT", "UPDATE", "DELETE"]
+   */
+  actions?: AuditWriteAction[];
+  /**
+   * Fields to exclude for this table, replacing the global `excludeFields`
+   * @example ["password", "settings.*.token"]
+   */
+  excludeFields?: AuditFieldPath<TableColumnName<TTable>>[];
+  /**
+   * Override the global `updateValuesMode` for this table
+   */
+  updateValuesMode?: UpdateValuesMode;
+  /**
+   * Override the global `strictMode` for this table
+   */
+  strictMode?: boolean;
+  /**
+   * If false, log entries are written without `values` (action and record ID only)
+   * @default true
+   */
+  storeValues?: boolean;
 };
 
 export type AuditTableConfig<TSchema extends Record<string, unknown>> = Partial<{
-  [K in AuditTableName<TSchema>]: {
-    primaryKey:
-      | TableColumnName<SchemaTable<TSchema, K>>
-      | TableColumnName<SchemaTable<TSchema, K>>[];
-  };
+  [K in AuditTableName<TSchema>]: AuditTableSettings<SchemaTable<TSchema, K>>;
 }>;
 
+/**
+ * A Drizzle table with optional settings; `primaryKey` is inferred from the table when omitted
+ * @example { table: users, auditReads: true }
+ */
+export type AuditTableOptions<TTable extends Table = Table> = {
+  table: TTable;
+} & Omit<AuditTableSettings<TTable>, "primaryKey"> &
+  Partial<Pick<AuditTableSettings<TTable>, "primaryKey">>;
+
+/**
+ * A Drizzle table object, alone or with settings
+ */
+export type AuditTableInput = Table | AuditTableOptions;
+
+/**
+ * Table settings keyed by schema table name, or an array of table inputs
+ * Arrays match through the number index, so the keyed form keeps its per-table checks.
+ */
+export type AuditTables<TSchema extends Record<string, unknown>> = AuditTableConfig<TSchema> & {
+  [index: number]: AuditTableInput;
+};
+
+/**
+ * Table name pattern: a glob (`*`, `?`) or regular expression
+ * @example "billing_*" | /^tmp_/
+ */
+export type AuditTablePattern = string | RegExp;
+
+export interface AuditDiscoveryConfig {
+  /** Drizzle schema object (e.g. `import * as schema`); non-table exports are ignored */
+  schema: Record<string, unknown>;
+  /** Only audit tables matching one of these patterns (default: all tables) */
+  include?: AuditTablePattern[];
+  /** Skip tables matching any of these patterns */
+  exclude?: AuditTablePattern[];
+  /**
+   * Log which tables are audited and which are skipped through `logInfo` when the logger
+   * is created
+   * @default true
+   */
+  logSummary?: boolean;
+}
+
+/**
+ * Per-table settings after merging table overrides with the global config
+ */
+export interface NormalizedTableConfig {
+  primaryKey: string | string[];
+  auditReads: boolean;
+  actions: AuditWriteAction[];
+  excludeFields: string[];
+  updateValuesMode: UpdateValuesMode;
+  strictMode: boolean;
+  storeValues: boolean;
+  /** Property key -> column name, from the Drizzle table (null until the table is known) */
+  columns: Record<string, string> | null;
+  /** Property key -> SQL type, e.g. `numeric(10, 2)` (null until the table is known) */
+  columnTypes: Record<string, string> | null;
+}
+
+/**
+ * Converts values that JSON cannot represent (binary data, collections, decimals, custom
+ * column types) before they are logged
+ */
+export interface AuditValueSerializer {
+  /** Type tag written with `tagSerializedValues`, e.g. "binary" */
+  name: string;
+  /** Match values by runtime type */
+  test?: (value: unknown) => boolean;
+  /** Match columns by SQL type, e.g. "bytea" or /^geometry/ (top-level columns only) */
+  columnType?: string | RegExp;
+  serialize: (value: unknown) => unknown;
+  /** Rebuild the original value from its serialized form (see `reviveAuditValues`) */
+  deserialize?: (value: unknown) => unknown;
+}
+
 export type AuditColumnKey =
   | "id"
   | "userId"
@@ -55,29 +195,127 @@ export type AuditColumnKey =
 
 export type AuditColumnMap = Record<AuditColumnKey, string>;
 
+/**
+ * How a redacted field is stored
+ * - "drop": remove the field
+ * - "marker": replace it with "[REDACTED]" (or `{ marker }`)
+ * - "hash": HMAC-SHA256 hex digest keyed by `redactionKey`; equal values hash the same
+ * - "mask": keep the first character (and the domain of emails), e.g. "a***@x.com"
+ * - function: custom replacement; returning undefined drops the field
+ */
+export type RedactionStrategy =
+  | "drop"
+  | "marker"
+  | "hash"
+  | "mask"
+  | { marker: string }
+  | ((value: unknown, field: { table: string; field: string }) => unknown);
+
+/**
+ * A 256-bit key used for audit value encryption
+ */
+export interface AuditEncryptionKey {
+  id: string;
+  key: Uint8Array;
+}
+
+/**
+ * Supplies encryption keys by ID
+ * Rotate keys by returning a new current key while `getKey` still resolves old IDs.
+ */
+export interface AuditKeyProvider {
+  /** Key used to encrypt new entries */
+  getCurrentKey: () => AuditEncryptionKey | Promise<AuditEncryptionKey>;
+  /** Key with the given ID, used to decrypt entries */
+  getKey: (id: string) => Uint8Array | undefined | Promise<Uint8Array | undefined>;
+}
+
+export interface AuditEncryptionConfig {
+  keyProvider: AuditKeyProvider;
+  /** Field paths encrypted in `values` (dot paths allowed) */
+  fields?: string[];
+  /** Field paths encrypted in log and context `metadata` */
+  metadataFields?: string[];
+}
+
+/**
+ * Operation passed to the `shouldAuditOperation` hook
+ */
+export interface AuditOperation {
+  table: string;
+  /** INSERT, UPDATE, DELETE, READ or a custom action */
+  action: string;
+  context: AuditContext | undefined;
+  /** Rows the log entry describes; empty for the check made before the statement runs */
+  records: Record<string, unknown>[];
+}
+
+/**
+ * Pipeline step run on each log entry before it is written
+ * Return the entry (modified or new), several entries to split it, or null / [] to drop it;
+ * returning undefined keeps the entry as it is (e.g. after mutating it in place).
+ */
+export type AuditMiddleware = (
+  log: AuditLog,
+  context: AuditContext | undefined,
+) => AuditMiddlewareResult | Promise<AuditMiddlewareResult>;
+
+type AuditMiddlewareResult = AuditLog | AuditLog[] | null | undefined;
+
 /**
  * Configuration options for the audit logger
  */
 export interface AuditConfig<TSchema extends Record<string, unknown> = Record<string, any>> {
   /**
-   * Tables to audit with per-table configuration.
+   * Tables to audit with per-table configuration, keyed by schema table name.
+   * An array of Drizzle table objects has its primary keys inferred.
    * @example { users: { primaryKey: "id" }, vehicles: { primaryKey: "id" } }
+   * @example [users, { table: vehicles, auditReads: true }]
+   * Required unless `discover` is set; entries here override discovered tables.
+   */
+  tables?: AuditTables<TSchema>;
+
+  /**
+   * Build the table list from a Drizzle schema, with primary keys inferred
+   * @example { schema, exclude: ["*_archive", /^tmp_/] }
    */
-  tables: AuditTableConfig<TSchema>;
+  discover?: AuditDiscoveryConfig;
 
   /**
    * Specific fields to track per table.
-   * If not specified, all fields are tracked.
-   * @example { users: ['id', 'email', 'role'], vehicles: ['id', 'make', 'model'] }
+   * If not specified, all fields are tracked. Dot paths keep only part of a JSON value,
+   * `*` matches any key and `[]` applies the rest of the path to each array element.
+   * @example { users: ['id', 'email', 'settings.theme', 'profile.addresses[].city'] }
    */
   fields?: AuditFieldConfig<TSchema>;
 
   /**
    * Fields to exclude from audit logs globally (e.g., passwords, tokens)
+   * Accepts the same dot paths as `fields`, e.g. `settings.*.token`.
+   * Plain names only match top-level fields.
    * @default ['password', 'token', 'secret', 'apiKey']
    */
   excludeFields?: string[];
 
+  /**
+   * Redact fields instead of excluding them, keyed by field path (dot paths allowed)
+   * Changes are detected on the original values; UPDATE entries list changed redacted
+   * fields in `metadata.redactedFields`.
+   * @example { email: "hash", phone: "mask", "settings.*.token": "marker" }
+   */
+  redact?: Record<string, RedactionStrategy>;
+
+  /**
+   * Secret key for the "hash" redaction strategy
+   */
+  redactionKey?: string;
+
+  /**
+   * Encrypt fields of `values`/`metadata` with AES-256-GCM before logs reach the writer
+   * Read them back with `decryptAuditLog`.
+   */
+  encryption?: AuditEncryptionConfig;
+
   /**
    * Name of the audit log table
    * @default 'audit_logs'
@@ -113,13 +351,142 @@ export interface AuditConfig<TSchema extends Record<string, unknown> = Record<st
    */
   logError?: (message: string, error: unknown) => void;
 
+  /**
+   * Informational logger hook, e.g. for the `discover` startup summary
+   * @default console.log
+   */
+  logInfo?: (message: string) => void;
+
+  /**
+   * Decide whether an operation is audited
+   * Called before an INSERT/UPDATE/DELETE runs (with no records, before any before-state
+   * capture) and again for every log entry before it is written (with the row it describes).
+   * Return false to skip it, e.g. for system actors, sampling or row conditions.
+   * Skipped operations are counted in `getStats().skippedCount`.
+   */
+  shouldAuditOperation?: (operation: AuditOperation) => boolean | Promise<boolean>;
+
+  /**
+   * Middleware applied in order to every log entry after capture and before it is written,
+   * whichever writer is used (default table, batch or `customWriter`)
+   * A middleware that throws is skipped for that entry and reported through `logError`
+   * (rethrown in strict mode).
+   * @example [(log) => ({ ...log, metadata: { ...log.metadata, region: regionOf(log) } })]
+   * @default []
+   */
+  pipeline?: AuditMiddleware[];
+
+  /**
+   * When `on("log")` listeners are called
+   * - "write": after the entry was written (inside a transaction, once it commits)
+   * - "capture": as soon as the entry is captured, before it is written
+   * `flush`, `error` and `dropped` always follow the write outcome.
+   * @default "write"
+   */
+  eventTiming?: "write" | "capture";
+
   /**
    * How UPDATE values are stored
    * - "changed": store only changed fields (requires SELECT before UPDATE)
    * - "full": store full row after UPDATE (no extra SELECT)
+   * - "diff": store `{ field: { old, new } }` for changed fields (requires SELECT before UPDATE)
+   * - "patch": store RFC 6902 JSON Patch operations, diffing nested JSONB objects key by key
+   *   (requires SELECT before UPDATE)
+   * Rows without a before state store the full row with `metadata.beforeStateMissing: true`.
    * @default "changed"
    */
-  updateValuesMode?: "changed" | "full";
+  updateValuesMode?: UpdateValuesMode;
+
+  /**
+   * Keys used in `values`
+   * - "property": Drizzle property keys as returned by `.returning()` (e.g. `ownerId`)
+   * - "column": database column names (e.g. `owner_id`)
+   * - "both": both keys for columns whose names differ
+   * `fields`, `excludeFields`, `redact` and `encryption` paths may use either spelling.
+   * @default "property"
+   */
+  valueKeyStyle?: ValueKeyStyle;
+
+  /**
+   * Serializers for values JSON cannot represent, checked before the built-ins
+   * (binary data, Map, Set and decimal library values)
+   * @example [{ name: "geometry", columnType: /^geometry/, serialize: (v) => toGeoJSON(v) }]
+   */
+  serializers?: AuditValueSerializer[];
+
+  /**
+   * Wrap serialized values as `{ $type, value }` so `reviveAuditValues` can rebuild them
+   * @default false
+   */
+  tagSerializedValues?: boolean;
+
+  /**
+   * How the "before" state of UPDATE operations is captured in "changed", "diff" and "patch" modes
+   * - "select": plain SELECT before the UPDATE; a concurrent writer can change rows in between
+   * - "lock": SELECT ... FOR UPDATE and the UPDATE run in one transaction (an implicit one
+   *   when not already inside `auditedDb.transaction(...)`), so before/after pairs are exact
+   * @default "select"
+   */
+  beforeStateCapture?: "select" | "lock";
+
+  /**
+   * What to do with UPDATE/DELETE statements that have no WHERE clause
+   * - "warn": run it and log a warning when the UPDATE before state is skipped
+   * - "ignore": run it and skip the UPDATE before state silently
+   * - "capture": read the whole table as before state, up to `noWhereClauseCaptureLimit` rows;
+   *   larger tables are logged as one BULK_UPDATE/BULK_DELETE entry
+   * - "reject": throw before the statement runs
+   * - "summary": log one BULK_UPDATE/BULK_DELETE entry with the affected row count
+   * @default "warn"
+   */
+  noWhereClausePolicy?: "warn" | "ignore" | "capture" | "reject" | "summary";
+
+  /**
+   * Maximum number of rows captured per statement with `noWhereClausePolicy: "capture"`
+   * @default 1000
+   */
+  noWhereClauseCaptureLimit?: number;
+
+  /**
+   * How logs captured inside `auditedDb.transaction(...)` are written
+   * - "immediate": write through the configured writer as soon as they are captured
+   * - "atomic": insert through the active transaction handle, so audit rows commit
+   *   or roll back together with the business change
+   * - "deferred": buffer logs per transaction ID and hand them to the configured writer
+   *   only after the transaction commits; dropped if it rolls back
+   *
+   * In atomic mode, audit write failures inside a transaction always propagate,
+   * regardless of `strictMode`, because they abort the transaction anyway.
+   * A `customWriter` can never join the SQL transaction, so it is deferred in atomic mode.
+   * @default "immediate"
+   */
+  transactionMode?: "immediate" | "atomic" | "deferred";
+
+  /**
+   * Maximum number of rows logged individually for a read on a table with `auditReads`
+   * Larger reads are logged as one summary entry (recordId "*") with the row count
+   * @default 100
+   */
+  readSummaryThreshold?: number;
+
+  /**
+   * Maximum JSON size in bytes of a single value in `values` (a field, one side of a diff
+   * or a patch operation value)
+   * Larger values are replaced with `{ $truncated, preview, sha256, size }` and the entry's
+   * `metadata.truncated` / `metadata.truncatedFields` are set
+   * @default undefined (no limit)
+   */
+  maxFieldBytes?: number;
+
+  /**
+   * Maximum JSON size in bytes of an entry's `values`
+   * The largest values are truncated until the entry fits; if it still does not, the whole
+   * `values` object is replaced with a truncation envelope that fits (minimum 160)
+   * Limits apply after encryption, so previews and digests never contain plaintext of
+   * encrypted fields.
+   * @default undefined (no limit)
+   */
+  maxEntryBytes?: number;
 
   /**
    * Batch configuration for async writes
@@ -128,6 +495,14 @@ export interface AuditConfig<TSchema extends Record<string, unknown> = Record<st
    */
   batch?: BatchConfig;
 
+  /**
+   * Audit raw INSERT/UPDATE/DELETE statements run through `db.execute()`
+   * Statements targeting a configured table get `RETURNING *` appended and the
+   * returned rows are logged like query builder operations
+   * @default undefined (disabled - raw statements are not audited)
+   */
+  rawSql?: RawSqlConfig;
+
   /**
    * Custom writer function for audit logs
    * Allows complete control over how audit logs are stored
@@ -147,18 +522,17 @@ export interface AuditConfig<TSchema extends Record<string, unknown> = Record<st
    *   );
    * }
    */
-  customWriter?: (
-    logs: Array<{
-      action: string;
-      tableName: AuditTableName<TSchema>;
-      recordId: string;
-      values?: Record<string, unknown>;
-      metadata?: Record<string, unknown>;
-    }>,
-    context: AuditContext | undefined,
-  ) => Promise<void> | void;
+  customWriter?: AuditCustomWriter<TSchema>;
 }
 
+/**
+ * Writes audit logs in place of the default audit table (see `customWriter`)
+ */
+export type AuditCustomWriter<TSchema extends Record<string, unknown> = Record<string, any>> = (
+  logs: Array<Omit<AuditLog, "tableName"> & { tableName: AuditTableName<TSchema> }>,
+  context: AuditContext | undefined,
+) => Promise<void> | void;
+
 /**
  * Configuration for batched audit log writes
  */
@@ -194,6 +568,21 @@ export interface BatchConfig {
   waitForWrite?: boolean;
 }
 
+/**
+ * Configuration for auditing raw `db.execute()` statements
+ */
+export interface RawSqlConfig {
+  /**
+   * What to do with DML statements that cannot be rewritten safely
+   * (CTEs, multiple statements, existing RETURNING clauses, ...)
+   * - "warn": execute without auditing and report it through `logError`
+   * - "throw": reject the statement before it is executed
+   * - "ignore": execute without auditing
+   * @default "warn"
+   */
+  onUnparsed?: "warn" | "throw" | "ignore";
+}
+
 /**
  * Context information for audit logs
  */
@@ -220,8 +609,24 @@ export interface AuditContext {
 
   /**
    * Transaction ID to group related operations
+   * Nested transactions keep the root transaction ID
    */
   transactionId?: string;
+
+  /**
+   * Savepoint ID when running inside a nested transaction
+   */
+  savepointId?: string;
+
+  /**
+   * Savepoint ID of the enclosing nested transaction (undefined when nested directly in the root)
+   */
+  parentSavepointId?: string;
+
+  /**
+   * Transaction nesting depth (0 for the root transaction)
+   */
+  transactionDepth?: number;
 }
 
 /**
@@ -243,18 +648,53 @@ export interface BatchWriterStats {
    * Whether the writer is shutting down
    */
   isShuttingDown: boolean;
+
+  /**
+   * Number of operations and log entries skipped by `shouldAuditOperation`
+   */
+  skippedCount: number;
 }
 
 /**
  * Normalized configuration with all defaults applied
  */
 export type NormalizedConfig<TSchema extends Record<string, unknown> = Record<string, any>> =
-  Required<Omit<AuditConfig<TSchema>, "getUserId" | "getMetadata" | "customWriter" | "batch">> & {
+  Required<
+    Omit<
+      AuditConfig<TSchema>,
+      | "tables"
+      | "getUserId"
+      | "getMetadata"
+      | "customWriter"
+      | "shouldAuditOperation"
+      | "redactionKey"
+      | "encryption"
+      | "discover"
+      | "serializers"
+      | "maxFieldBytes"
+      | "maxEntryBytes"
+      | "batch"
+      | "rawSql"
+    >
+  > & {
+    tables: Record<string, NormalizedTableConfig>;
     getUserId: () => string | undefined | Promise<string | undefined>;
     getMetadata: () => Record<string, unknown> | Promise<Record<string, unknown>>;
     logError: (message: string, error: unknown) => void;
-    updateValuesMode: "changed" | "full";
+    logInfo: (message: string) => void;
+    updateValuesMode: UpdateValuesMode;
+    beforeStateCapture: "select" | "lock";
+    noWhereClausePolicy: "warn" | "ignore" | "capture" | "reject" | "summary";
+    transactionMode: "immediate" | "atomic" | "deferred";
     batch: Required<BatchConfig> | null;
+    rawSql: Required<RawSqlConfig> | null;
     auditColumnMap: AuditColumnMap;
-    customWriter?: (logs: any[], context: AuditContext | undefined) => Promise<void> | void;
+    customWriter?: AuditCustomWriter;
+    shouldAuditOperation?: AuditConfig["shouldAuditOperation"];
+    redactionKey?: string;
+    encryption: Required<AuditEncryptionConfig> | null;
+    /** Configured serializers followed by the built-ins */
+    serializers: AuditValueSerializer[];
+    maxFieldBytes: number | null;
+    maxEntryBytes: number | null;
   };
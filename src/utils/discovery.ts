@@ -0,0 +1,93 @@
+import type { AuditDiscoveryConfig, AuditTablePattern } from "../types/config.js";
+import { isTable, type Table } from "drizzle-orm";
+import { inferPrimaryKey } from "./primary-key.js";
+import { getAuditTableName } from "./table-name.js";
+import { getColumnNames } from "./value-keys.js";
+import { getColumnTypes } from "./value-serializers.js";
+
+/**
+ * Why a schema table is not audited
+ */
+export type SkippedTableReason = "excluded" | "not included" | "no primary key";
+
+export interface TableDiscoveryResult {
+  discovered: Array<{
+    name: string;
+    primaryKey: string | string[];
+    columns: Record<string, string>;
+    columnTypes: Record<string, string>;
+  }>;
+  skipped: Array<{ name: string; reason: SkippedTableReason }>;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Match a table name against a glob (`*`, `?`) or regular expression
+ */
+export function matchesTablePattern(name: string, pattern: AuditTablePattern): boolean {
+  return (typeof pattern === "string" ? globToRegExp(pattern) : pattern).test(name);
+}
+
+/**
+ * Find the tables of a Drizzle schema to audit
+ * Non-table exports (relations, enums) are ignored; tables in `configured` are left to
+ * their explicit config.
+ */
+export function discoverTables(
+  { schema, include, exclude = [] }: AuditDiscoveryConfig,
+  configured: ReadonlySet<string>,
+): TableDiscoveryResult {
+  const result: TableDiscoveryResult = { discovered: [], skipped: [] };
+  const tables = Object.values(schema).filter((value): value is Table => isTable(value));
+
+  for (const table of tables) {
+    const name = getAuditTableName(table);
+    if (configured.has(name)) continue;
+
+    if (include && !include.some((pattern) => matchesTablePattern(name, pattern))) {
+      result.skipped.push({ name, reason: "not included" });
+    } else if (exclude.some((pattern) => matchesTablePattern(name, pattern))) {
+      result.skipped.push({ name, reason: "excluded" });
+    } else {
+      const primaryKey = inferPrimaryKey(table);
+      if (primaryKey) {
+        result.discovered.push({
+          name,
+          primaryKey,
+          columns: getColumnNames(table),
+          columnTypes: getColumnTypes(table),
+        });
+      } else {
+        result.skipped.push({ name, reason: "no primary key" });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Describe audited and skipped tables for the startup log
+ */
+export function formatDiscoverySummary(
+  audited: string[],
+  skipped: TableDiscoveryResult["skipped"],
+): string {
+  const lines = [`[AUDIT] Auditing ${audited.length} table(s): ${audited.join(", ") || "none"}`];
+  if (skipped.length > 0) {
+    const details = skipped.map(({ name, reason }) => `${name} (${reason})`).join(", ");
+    lines.push(`[AUDIT] Skipped ${skipped.length} table(s): ${details}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,232 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { AuditLog, AuditLogValues, EncryptedValue } from "../types/audit.js";
+import type {
+  AuditContext,
+  AuditEncryptionConfig,
+  AuditEncryptionKey,
+  AuditKeyProvider,
+} from "../types/config.js";
+import type { JsonPatchOperation } from "./json-patch.js";
+import { mapFieldPaths } from "./field-path.js";
+import { isAuditDiffValues } from "./serializer.js";
+
+const ALGORITHM = "aes-256-gcm";
+
+function assertKeyLength(id: string, key: Uint8Array): void {
+  if (key.length !== 32) {
+    throw new Error(`Encryption key "${id}" must be 32 bytes`);
+  }
+}
+
+/**
+ * Check whether a value is an encrypted envelope
+ */
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { $encrypted?: unknown }).$encrypted === ALGORITHM
+  );
+}
+
+/**
+ * Encrypt a JSON value with AES-256-GCM
+ */
+export function encryptValue(value: unknown, { id, key }: AuditEncryptionKey): EncryptedValue {
+  assertKeyLength(id, key);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+  return {
+    $encrypted: ALGORITHM,
+    kid: id,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt an envelope produced by `encryptValue`
+ * @throws {Error} If the key is wrong or the envelope was tampered with
+ */
+export function decryptValue(envelope: EncryptedValue, key: Uint8Array): unknown {
+  assertKeyLength(envelope.kid, key);
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(envelope.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+  return JSON.parse(plaintext);
+}
+
+/**
+ * Key provider backed by a fixed set of keys (base64 strings or bytes)
+ * Add the new key and switch `currentKeyId` to rotate; keep old keys for decryption.
+ */
+export function createStaticKeyProvider(
+  keys: Record<string, string | Uint8Array>,
+  currentKeyId: string,
+): AuditKeyProvider {
+  const decoded = new Map(
+    Object.entries(keys).map(([id, key]) => {
+      const bytes = typeof key === "string" ? Buffer.from(key, "base64") : key;
+      assertKeyLength(id, bytes);
+      return [id, bytes] as const;
+    }),
+  );
+  const current = decoded.get(currentKeyId);
+  if (!current) {
+    throw new Error(`Current encryption key "${currentKeyId}" is not in the key set`);
+  }
+
+  return {
+    getCurrentKey: () => ({ id: currentKeyId, key: current }),
+    getKey: (id) => decoded.get(id),
+  };
+}
+
+/**
+ * Nest a value under a JSON Pointer so field paths can be matched against it
+ * (numeric tokens become sparse arrays, so `[]` paths still apply)
+ */
+function nestAtPointer(tokens: string[], value: unknown): unknown {
+  let nested = value;
+  for (const token of [...tokens].reverse()) {
+    if (token === "-" || /^\d+$/.test(token)) {
+      const array: unknown[] = [];
+      array[token === "-" ? 0 : Number(token)] = nested;
+      nested = array;
+    } else {
+      nested = { [token]: nested };
+    }
+  }
+  return nested;
+}
+
+function readAtPointer(root: unknown, tokens: string[]): unknown {
+  let current = root;
+  for (const token of tokens) {
+    const key = token === "-" ? "0" : token;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function encryptPatch(
+  patch: JsonPatchOperation[],
+  paths: string[],
+  encrypt: (value: unknown) => unknown,
+): JsonPatchOperation[] {
+  return patch.map((operation) => {
+    if (!("value" in operation)) return operation;
+
+    const tokens = operation.path
+      .split("/")
+      .slice(1)
+      .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"));
+    const root = tokens.length === 0 ? operation.value : nestAtPointer(tokens, operation.value);
+    if (typeof root !== "object" || root === null || Array.isArray(root)) return operation;
+
+    const encrypted = mapFieldPaths(root as Record<string, unknown>, paths, encrypt);
+    return { ...operation, value: readAtPointer(encrypted, tokens) };
+  });
+}
+
+function encryptValues(
+  values: AuditLogValues,
+  paths: string[],
+  encrypt: (value: unknown) => unknown,
+): AuditLogValues {
+  if (Array.isArray(values)) {
+    return encryptPatch(values, paths, encrypt);
+  }
+
+  if (isAuditDiffValues(values)) {
+    const sides = (side: "old" | "new") =>
+      mapFieldPaths(
+        Object.fromEntries(Object.entries(values).map(([field, diff]) => [field, diff[side]])),
+        paths,
+        encrypt,
+      );
+    const oldValues = sides("old");
+    const newValues = sides("new");
+    return Object.fromEntries(
+      Object.keys(values).map((field) => [field, { old: oldValues[field], new: newValues[field] }]),
+    );
+  }
+
+  return mapFieldPaths(values, paths, encrypt);
+}
+
+/**
+ * Encrypt the configured fields of logs (and of the context metadata) with the current key
+ * `resolveValuePaths` maps `fields` to the keys used in each table's values.
+ */
+export async function encryptAuditLogs(
+  logs: AuditLog[],
+  context: AuditContext | undefined,
+  config: Required<AuditEncryptionConfig>,
+  resolveValuePaths: (paths: string[], tableName: string) => string[] = (paths) => paths,
+): Promise<{ logs: AuditLog[]; context: AuditContext | undefined }> {
+  const { fields, metadataFields } = config;
+  const key = await config.keyProvider.getCurrentKey();
+  // Null has nothing to protect and stays queryable
+  const encrypt = (value: unknown) => (value == null ? value : encryptValue(value, key));
+
+  const encryptedLogs = logs.map((log) => ({
+    ...log,
+    ...(log.values &&
+      fields.length > 0 && {
+        values: encryptValues(log.values, resolveValuePaths(fields, log.tableName), encrypt),
+      }),
+    ...(log.metadata &&
+      metadataFields.length > 0 && {
+        metadata: mapFieldPaths(log.metadata, metadataFields, encrypt),
+      }),
+  }));
+
+  const encryptedContext =
+    context?.metadata && metadataFields.length > 0
+      ? { ...context, metadata: mapFieldPaths(context.metadata, metadataFields, encrypt) }
+      : context;
+
+  return { logs: encryptedLogs, context: encryptedContext };
+}
+
+async function decryptDeep(value: unknown, keyProvider: AuditKeyProvider): Promise<unknown> {
+  if (isEncryptedValue(value)) {
+    const key = await keyProvider.getKey(value.kid);
+    if (!key) {
+      throw new Error(`Unknown encryption key "${value.kid}"`);
+    }
+    return decryptValue(value, key);
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => decryptDeep(item, keyProvider)));
+  }
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(
+        async ([key, item]) => [key, await decryptDeep(item, keyProvider)] as const,
+      ),
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/**
+ * Decrypt every encrypted value in a log's `values` and `metadata`
+ * Works on stored rows and on logs passed to custom writers; other fields are returned as-is.
+ */
+export async function decryptAuditLog<
+  T extends { values?: unknown; metadata?: Record<string, unknown> | null },
+>(log: T, keyProvider: AuditKeyProvider): Promise<T> {
+  return {
+    ...log,
+    values: (await decryptDeep(log.values, keyProvider)) as T["values"],
+    metadata: (await decryptDeep(log.metadata, keyProvider)) as T["metadata"],
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * One segment of a field path such as `settings.*.token` or `profile.addresses[].street`
+ * `key` is a property name or `*` (any key); `each` applies the rest of the path to every
+ * element of the array found at that key.
+ */
+interface FieldPathSegment {
+  key: string;
+  each: boolean;
+}
+
+type FieldPath = FieldPathSegment[];
+
+const parsedPaths = new Map<string, FieldPath>();
+
+/**
+ * Parse a dot-path field pattern
+ * @throws {Error} If the path has an empty segment
+ */
+export function parseFieldPath(path: string): FieldPath {
+  const cached = parsedPaths.get(path);
+  if (cached) return cached;
+
+  const segments = path.split(".").map((part) => {
+    const each = part.endsWith("[]");
+    const key = each ? part.slice(0, -2) : part;
+    if (!key || key.includes("[") || key.includes("]")) {
+      throw new Error(`Invalid field path: "${path}"`);
+    }
+    return { key, each };
+  });
+
+  parsedPaths.set(path, segments);
+  return segments;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function matchesKey(segment: FieldPathSegment, key: string): boolean {
+  return segment.key === "*" || segment.key === key;
+}
+
+/**
+ * Split the paths matching `key` into the remaining paths for the value itself
+ * and the remaining paths for each of its array elements
+ */
+function descend(paths: FieldPath[], key: string) {
+  const direct: FieldPath[] = [];
+  const elements: FieldPath[] = [];
+  for (const [segment, ...rest] of paths) {
+    if (!segment || !matchesKey(segment, key)) continue;
+    (segment.each ? elements : direct).push(rest);
+  }
+  return { direct, elements, matched: direct.length + elements.length > 0 };
+}
+
+function omitPaths(value: unknown, paths: FieldPath[]): unknown {
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const { direct, elements, matched } = descend(paths, key);
+    if (!matched) {
+      result[key] = child;
+      continue;
+    }
+    // A path ending at this key removes it entirely
+    if (direct.some((rest) => rest.length === 0) || elements.some((rest) => rest.length === 0)) {
+      continue;
+    }
+
+    let next = child;
+    if (elements.length > 0 && Array.isArray(next)) {
+      next = next.map((element) => omitPaths(element, elements));
+    }
+    if (direct.length > 0) {
+      next = omitPaths(next, direct);
+    }
+    result[key] = next;
+  }
+  return result;
+}
+
+function pickPaths(value: unknown, paths: FieldPath[]): unknown {
+  if (paths.some((rest) => rest.length === 0)) return value;
+  // Nulls are kept so a cleared document stays visible; other shapes that
+  // don't match the allowed paths are dropped
+  if (value === null) return null;
+  if (!isPlainObject(value)) return undefined;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const { direct, elements, matched } = descend(paths, key);
+    if (!matched) continue;
+
+    let next: unknown;
+    if (direct.some((rest) => rest.length === 0)) {
+      next = child;
+    } else if (elements.length > 0 && Array.isArray(child)) {
+      next = child.map((element) => pickPaths(element, elements));
+    } else if (direct.length > 0) {
+      next = pickPaths(child, direct);
+    } else {
+      next = child === null ? null : undefined;
+    }
+
+    if (next !== undefined) {
+      result[key] = next;
+    }
+  }
+  return result;
+}
+
+function mapPaths(value: unknown, paths: FieldPath[], fn: (value: unknown) => unknown): unknown {
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const { direct, elements, matched } = descend(paths, key);
+    if (!matched) {
+      result[key] = child;
+      continue;
+    }
+
+    let next = child;
+    if (direct.some((rest) => rest.length === 0)) {
+      result[key] = fn(child);
+      continue;
+    }
+    if (elements.length > 0 && Array.isArray(next)) {
+      next = next.map((element) =>
+        elements.some((rest) => rest.length === 0) ? fn(element) : mapPaths(element, elements, fn),
+      );
+    }
+    if (direct.length > 0) {
+      next = mapPaths(next, direct, fn);
+    }
+    result[key] = next;
+  }
+  return result;
+}
+
+/**
+ * Return a copy of `record` with `fn` applied to every value matched by `paths`
+ */
+export function mapFieldPaths(
+  record: Record<string, unknown>,
+  paths: string[],
+  fn: (value: unknown) => unknown,
+): Record<string, unknown> {
+  return mapPaths(record, paths.map(parseFieldPath), fn) as Record<string, unknown>;
+}
+
+/**
+ * Return a copy of `record` without the values matched by `paths`
+ * Top-level names behave as before; dot paths reach into nested objects and
+ * `[]` into arrays (e.g. `settings.*.token`, `profile.addresses[].street`).
+ */
+export function omitFieldPaths(
+  record: Record<string, unknown>,
+  paths: string[],
+): Record<string, unknown> {
+  return omitPaths(record, paths.map(parseFieldPath)) as Record<string, unknown>;
+}
+
+/**
+ * Return a copy of `record` keeping only the values matched by `paths`
+ */
+export function pickFieldPaths(
+  record: Record<string, unknown>,
+  paths: string[],
+): Record<string, unknown> {
+  return pickPaths(record, paths.map(parseFieldPath)) as Record<string, unknown>;
+}
@@ -0,0 +1,240 @@
+import { isDeepStrictEqual } from "node:util";
+
+/**
+ * RFC 6902 JSON Patch operation
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "test"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function escapePathToken(token: string): string {
+  return token.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+function parsePath(path: string): string[] {
+  if (path === "") return [];
+  if (!path.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer: ${path}`);
+  }
+  return path
+    .slice(1)
+    .split("/")
+    .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"));
+}
+
+function diffInto(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  basePath: string,
+  operations: JsonPatchOperation[],
+): void {
+  for (const key of Object.keys(before)) {
+    if (!(key in after) || after[key] === undefined) {
+      if (before[key] === undefined) continue;
+      const path = `${basePath}/${escapePathToken(key)}`;
+      // The test op keeps the removed value so the patch can be reversed
+      operations.push({ op: "test", path, value: before[key] }, { op: "remove", path });
+    }
+  }
+
+  for (const key of Object.keys(after)) {
+    const path = `${basePath}/${escapePathToken(key)}`;
+    const oldValue = before[key];
+    const newValue = after[key];
+    if (newValue === undefined || isDeepStrictEqual(oldValue, newValue)) continue;
+
+    if (oldValue === undefined) {
+      operations.push({ op: "add", path, value: newValue });
+    } else if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      // Recurse into nested objects (e.g. JSONB documents) so only changed keys are stored
+      diffInto(oldValue, newValue, path, operations);
+    } else {
+      operations.push(
+        { op: "test", path, value: oldValue },
+        { op: "replace", path, value: newValue },
+      );
+    }
+  }
+}
+
+/**
+ * Compute a JSON Patch turning `before` into `after`
+ * Nested plain objects are diffed key by key; arrays and other values are replaced whole.
+ * Every `replace`/`remove` is preceded by a `test` op holding the old value, which makes the
+ * patch reversible with `reverseJsonPatch`.
+ */
+export function createJsonPatch(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  diffInto(before, after, "", operations);
+  return operations;
+}
+
+function getParent(document: unknown, tokens: string[], path: string) {
+  let parent = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (typeof parent !== "object" || parent === null || !(token in parent)) {
+      throw new Error(`JSON Patch path not found: ${path}`);
+    }
+    parent = (parent as Record<string, unknown>)[token];
+  }
+  if (typeof parent !== "object" || parent === null) {
+    throw new Error(`JSON Patch path not found: ${path}`);
+  }
+  return { parent: parent as Record<string, unknown> | unknown[], key: tokens.at(-1)! };
+}
+
+function arrayIndex(array: unknown[], key: string, path: string, allowEnd: boolean): number {
+  if (allowEnd && key === "-") return array.length;
+  const index = Number(key);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (!/^(0|[1-9]\d*)$/.test(key) || index > max) {
+    throw new Error(`Invalid array index in JSON Patch path: ${path}`);
+  }
+  return index;
+}
+
+function getValue(document: unknown, path: string): unknown {
+  const tokens = parsePath(path);
+  if (tokens.length === 0) return document;
+  const { parent, key } = getParent(document, tokens, path);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, path, false)];
+  }
+  if (!(key in parent)) {
+    throw new Error(`JSON Patch path not found: ${path}`);
+  }
+  return parent[key];
+}
+
+function addValue(document: unknown, path: string, value: unknown): unknown {
+  const tokens = parsePath(path);
+  if (tokens.length === 0) return value;
+  const { parent, key } = getParent(document, tokens, path);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, path, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, path: string): unknown {
+  const tokens = parsePath(path);
+  if (tokens.length === 0) return undefined;
+  const { parent, key } = getParent(document, tokens, path);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, path, false), 1);
+  } else {
+    if (!(key in parent)) {
+      throw new Error(`JSON Patch path not found: ${path}`);
+    }
+    delete parent[key];
+  }
+  return document;
+}
+
+/**
+ * Apply a JSON Patch to a document and return the patched copy
+ * The input document is not modified. Throws if a `test` op does not match.
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = structuredClone(document);
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case "add":
+        result = addValue(result, operation.path, structuredClone(operation.value));
+        break;
+      case "remove":
+        result = removeValue(result, operation.path);
+        break;
+      case "replace":
+        getValue(result, operation.path);
+        result = removeValue(result, operation.path);
+        result = addValue(result, operation.path, structuredClone(operation.value));
+        break;
+      case "test":
+        if (!isDeepStrictEqual(getValue(result, operation.path), operation.value)) {
+          throw new Error(`JSON Patch test failed at ${operation.path}`);
+        }
+        break;
+      case "move": {
+        const value = getValue(result, operation.from);
+        result = removeValue(result, operation.from);
+        result = addValue(result, operation.path, value);
+        break;
+      }
+      case "copy":
+        result = addValue(
+          result,
+          operation.path,
+          structuredClone(getValue(result, operation.from)),
+        );
+        break;
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Build the patch that undoes `patch` (turns the patched document back into the original)
+ * Requires the `test` ops written by `createJsonPatch` before every `replace`/`remove`.
+ */
+export function reverseJsonPatch(patch: JsonPatchOperation[]): JsonPatchOperation[] {
+  const steps: JsonPatchOperation[][] = [];
+
+  for (let i = 0; i < patch.length; i++) {
+    const operation = patch[i]!;
+    const next = patch[i + 1];
+    const hasOldValue =
+      operation.op === "test" &&
+      (next?.op === "replace" || next?.op === "remove") &&
+      next.path === operation.path;
+
+    if (hasOldValue) {
+      const oldValue = (operation as { value: unknown }).value;
+      steps.push(
+        next.op === "replace"
+          ? [
+              { op: "test", path: next.path, value: next.value },
+              { op: "replace", path: next.path, value: oldValue },
+            ]
+          : [{ op: "add", path: next.path, value: oldValue }],
+      );
+      i++;
+      continue;
+    }
+
+    switch (operation.op) {
+      case "add":
+        steps.push([
+          { op: "test", path: operation.path, value: operation.value },
+          { op: "remove", path: operation.path },
+        ]);
+        break;
+      case "test":
+        steps.push([operation]);
+        break;
+      default:
+        throw new Error(
+          `Cannot reverse JSON Patch "${operation.op}" at ${operation.path} without the old value`,
+        );
+    }
+  }
+
+  return steps.reverse().flat();
+}
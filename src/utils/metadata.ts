@@ -1,3 +1,6 @@
+import type { AuditLog, AuditLogEntry } from "../types/audit.js";
+import type { AuditContext } from "../types/config.js";
+
 export const mergeMetadata = (
   ...sources: Array<Record<string, unknown> | undefined | null>
 ): Record<string, unknown> | null => {
@@ -14,3 +17,38 @@ export const mergeMetadata = (
 
   return Object.keys(merged).length > 0 ? merged : null;
 };
+
+/**
+ * Savepoint details stored with logs captured inside nested transactions
+ */
+export const getTransactionMetadata = (
+  context: AuditContext | undefined,
+): Record<string, unknown> | null => {
+  if (!context?.savepointId) return null;
+
+  return {
+    savepointId: context.savepointId,
+    parentSavepointId: context.parentSavepointId,
+    transactionDepth: context.transactionDepth,
+  };
+};
+
+/**
+ * Attach the resolved user, request context and merged metadata to logs
+ */
+export const toAuditLogEntries = (
+  logs: AuditLog[],
+  context: AuditContext | undefined,
+  userId: string | undefined,
+  metadata: Record<string, unknown> | undefined,
+): AuditLogEntry[] =>
+  logs.map((log) => ({
+    ...log,
+    userId: userId || context?.userId,
+    ipAddress: context?.ipAddress,
+    userAgent: context?.userAgent,
+    metadata:
+      mergeMetadata(metadata, context?.metadata, log.metadata, getTransactionMetadata(context)) ??
+      undefined,
+    transactionId: context?.transactionId,
+  }));
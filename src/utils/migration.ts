@@ -1,7 +1,11 @@
-import type { AuditColumnMap } from "../types/config.js";
+import type { StoredAuditLog } from "../types/audit.js";
+import type { AuditColumnMap, AuditKeyProvider } from "../types/config.js";
+import { sql } from "drizzle-orm";
 // TODO: Replace all postgres-js imports with either generic db or driver-agnostic
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { DEFAULT_AUDIT_COLUMN_MAP } from "../storage/column-map.js";
 import { createAuditTableSQL, createAuditTableSQLFor } from "../storage/schema.js";
+import { decryptAuditLog } from "./encryption.js";
 
 /**
  * Initialize the audit logging system
@@ -111,6 +115,110 @@ export async function getAuditStats(
     newestLog: row?.newest_log ? new Date(row.newest_log) : null,
   };
 }
+
+/**
+ * Node of a transaction tree (root transaction or nested savepoint)
+ */
+export interface AuditTransactionNode {
+  savepointId: string | null;
+  parentSavepointId: string | null;
+  depth: number;
+  logs: StoredAuditLog[];
+  children: AuditTransactionNode[];
+}
+
+/**
+ * Rebuild the savepoint tree of a transaction from its audit logs
+ * Logs of nested transactions are attached to their savepoint node
+ * Pass `keyProvider` to decrypt values written with `encryption` enabled
+ */
+export async function getTransactionTree(
+  db: PostgresJsDatabase<any>,
+  transactionId: string,
+  options?: {
+    tableName?: string;
+    columnMap?: Partial<AuditColumnMap>;
+    keyProvider?: AuditKeyProvider;
+  },
+): Promise<AuditTransactionNode> {
+  const tableName = options?.tableName ?? "audit_logs";
+  assertSafeIdentifier(tableName);
+  // oxlint-disable-next-line unicorn/no-useless-fallback-in-spread
+  const columns = { ...DEFAULT_AUDIT_COLUMN_MAP, ...(options?.columnMap || {}) };
+  Object.values(columns).forEach(assertSafeIdentifier);
+
+  const result = await db.execute(sql`
+    SELECT * FROM ${sql.identifier(tableName)}
+    WHERE ${sql.identifier(columns.transactionId)} = ${transactionId}
+    ORDER BY ${sql.identifier(columns.createdAt)} ASC, ${sql.identifier(columns.id)} ASC
+  `);
+
+  const root: AuditTransactionNode = {
+    savepointId: null,
+    parentSavepointId: null,
+    depth: 0,
+    logs: [],
+    children: [],
+  };
+  const nodes = new Map<string, AuditTransactionNode>();
+
+  const getNode = (savepointId: string, parentSavepointId: string | null, depth: number) => {
+    let node = nodes.get(savepointId);
+    if (!node) {
+      node = { savepointId, parentSavepointId, depth, logs: [], children: [] };
+      nodes.set(savepointId, node);
+    }
+    return node;
+  };
+
+  for (const row of result.rows as Record<string, unknown>[]) {
+    const stored = toStoredAuditLog(row, columns);
+    const log = options?.keyProvider ? await decryptAuditLog(stored, options.keyProvider) : stored;
+    const savepointId = log.metadata?.savepointId;
+    if (typeof savepointId !== "string") {
+      root.logs.push(log);
+      continue;
+    }
+
+    const parentSavepointId =
+      typeof log.metadata?.parentSavepointId === "string" ? log.metadata.parentSavepointId : null;
+    const depth =
+      typeof log.metadata?.transactionDepth === "number" ? log.metadata.transactionDepth : 1;
+    getNode(savepointId, parentSavepointId, depth).logs.push(log);
+  }
+
+  // Link savepoints to their parents (creating empty parents that logged nothing)
+  for (const node of Array.from(nodes.values())) {
+    if (node.parentSavepointId) {
+      getNode(node.parentSavepointId, null, node.depth - 1);
+    }
+  }
+  for (const node of nodes.values()) {
+    const parent = node.parentSavepointId ? nodes.get(node.parentSavepointId) : undefined;
+    (parent ?? root).children.push(node);
+  }
+
+  return root;
+}
+
+function toStoredAuditLog(row: Record<string, unknown>, columns: AuditColumnMap): StoredAuditLog {
+  const toDate = (value: unknown) => (value == null ? null : new Date(value as string));
+  return {
+    id: String(row[columns.id]),
+    userId: (row[columns.userId] as string | null) ?? null,
+    ipAddress: (row[columns.ipAddress] as string | null) ?? null,
+    userAgent: (row[columns.userAgent] as string | null) ?? null,
+    action: row[columns.action] as string,
+    tableName: row[columns.tableName] as string,
+    recordId: row[columns.recordId] as string,
+    values: (row[columns.values] as Record<string, unknown> | null) ?? null,
+    metadata: (row[columns.metadata] as Record<string, unknown> | null) ?? null,
+    transactionId: (row[columns.transactionId] as string | null) ?? null,
+    createdAt: toDate(row[columns.createdAt]) ?? new Date(0),
+    deletedAt: toDate(row[columns.deletedAt]),
+  };
+}
+
 function assertSafeIdentifier(name: string): void {
   if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
     throw new Error(`Invalid identifier: ${name}`);
@@ -1,3 +1,6 @@
+import { getTableColumns, type Table } from "drizzle-orm";
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+
 /**
  * Extract primary key from a record
  * Handles various PK formats: single, composite, UUID, etc.
@@ -19,6 +22,28 @@ export function extractPrimaryKey(
   return configured;
 }
 
+/**
+ * Infer the primary key of a Drizzle table as property names
+ * Uses column-level `.primaryKey()` or a table-level `primaryKey({ columns })`
+ * @returns The key, or null if the table has no primary key
+ */
+export function inferPrimaryKey(table: Table): string | string[] | null {
+  const columns = Object.entries(getTableColumns(table));
+  // Table-level keys hold their own column instances, so match them by SQL name
+  const keyOf = (column: { name: string }) =>
+    columns.find(([, candidate]) => candidate.name === column.name)?.[0];
+
+  const composite = getTableConfig(table as PgTable).primaryKeys[0];
+  if (composite) {
+    const keys = composite.columns.map(keyOf).filter((key) => key !== undefined);
+    return keys.length === 1 ? keys[0]! : keys;
+  }
+
+  const primary = columns.filter(([, column]) => column.primary).map(([key]) => key);
+  if (primary.length === 0) return null;
+  return primary.length === 1 ? primary[0]! : primary;
+}
+
 /**
  * Extract primary key from multiple records
  */
@@ -0,0 +1,206 @@
+import { createHmac } from "node:crypto";
+import { isDeepStrictEqual } from "node:util";
+import type { NormalizedConfig, RedactionStrategy } from "../types/config.js";
+import { parseFieldPath } from "./field-path.js";
+import { toValuePaths } from "./value-keys.js";
+
+const DEFAULT_MARKER = "[REDACTED]";
+
+type RedactionRule = {
+  segments: ReturnType<typeof parseFieldPath>;
+  strategy: RedactionStrategy;
+};
+
+type RedactionState = {
+  tableName: string;
+  key: string | undefined;
+  touched: string[][];
+};
+
+const DROP = Symbol("drop");
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Partially mask a value, keeping enough to recognise it
+ * `alice@example.com` -> `a***@example.com`, `+4712345678` -> `+********78`
+ */
+export function maskValue(value: unknown): string {
+  const text = toText(value);
+  const at = text.lastIndexOf("@");
+  if (at > 0) {
+    return `${text[0]}***${text.slice(at)}`;
+  }
+  if (text.length <= 4) {
+    return "*".repeat(text.length);
+  }
+  return `${text[0]}${"*".repeat(text.length - 3)}${text.slice(-2)}`;
+}
+
+function applyStrategy(
+  value: unknown,
+  strategy: RedactionStrategy,
+  path: string[],
+  state: RedactionState,
+): unknown {
+  // Missing values have nothing to hide; keep nulls so cleared fields stay visible
+  if (value === null || value === undefined) return value;
+
+  if (typeof strategy === "function") {
+    const redacted = strategy(value, { table: state.tableName, field: path.join(".") });
+    return redacted === undefined ? DROP : redacted;
+  }
+
+  switch (strategy) {
+    case "drop":
+      return DROP;
+    case "marker":
+      return DEFAULT_MARKER;
+    case "mask":
+      return maskValue(value);
+    case "hash":
+      return createHmac("sha256", state.key!).update(toText(value)).digest("hex");
+    default:
+      return strategy.marker;
+  }
+}
+
+function redactObject(
+  value: Record<string, unknown>,
+  rules: RedactionRule[],
+  path: string[],
+  state: RedactionState,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = [...path, key];
+    const matching = rules.filter(({ segments: [segment] }) =>
+      segment ? segment.key === "*" || segment.key === key : false,
+    );
+    if (matching.length === 0) {
+      result[key] = child;
+      continue;
+    }
+
+    // A rule ending at this key redacts the whole value; the first one wins
+    const terminal = matching.find(({ segments }) => segments.length === 1 && !segments[0]!.each);
+    if (terminal) {
+      state.touched.push(childPath);
+      const redacted = applyStrategy(child, terminal.strategy, childPath, state);
+      if (redacted !== DROP) result[key] = redacted;
+      continue;
+    }
+
+    const nested = matching.map(({ segments, strategy }) => ({
+      each: segments[0]!.each,
+      rule: { segments: segments.slice(1), strategy },
+    }));
+    const elementRules = nested.filter(({ each }) => each).map(({ rule }) => rule);
+    const directRules = nested.filter(({ each }) => !each).map(({ rule }) => rule);
+
+    let next = child;
+    if (elementRules.length > 0 && Array.isArray(next)) {
+      next = next.map((element, index) =>
+        redactElement(element, elementRules, [...childPath, String(index)], state),
+      );
+    }
+    if (directRules.length > 0 && isPlainObject(next)) {
+      next = redactObject(next, directRules, childPath, state);
+    }
+    result[key] = next;
+  }
+
+  return result;
+}
+
+function redactElement(
+  element: unknown,
+  rules: RedactionRule[],
+  path: string[],
+  state: RedactionState,
+): unknown {
+  // `field[]` with nothing after it redacts every element
+  const whole = rules.find(({ segments }) => segments.length === 0);
+  if (whole) {
+    state.touched.push(path);
+    const redacted = applyStrategy(element, whole.strategy, path, state);
+    return redacted === DROP ? null : redacted;
+  }
+  return isPlainObject(element) ? redactObject(element, rules, path, state) : element;
+}
+
+/**
+ * Apply the configured `redact` strategies to a record
+ * Returns the redacted copy and the concrete paths that were redacted
+ */
+export function redactRecord(
+  record: Record<string, unknown>,
+  tableName: string,
+  config: NormalizedConfig,
+): { values: Record<string, unknown>; redactedPaths: string[][] } {
+  const entries = Object.entries(config.redact);
+  if (entries.length === 0) {
+    return { values: record, redactedPaths: [] };
+  }
+
+  // Rules match the property key and the column name
+  const rules = entries.flatMap(([path, strategy]) =>
+    toValuePaths([path], tableName, config).map((valuePath) => ({
+      segments: parseFieldPath(valuePath),
+      strategy,
+    })),
+  );
+  const state: RedactionState = { tableName, key: config.redactionKey, touched: [] };
+  return { values: redactObject(record, rules, [], state), redactedPaths: state.touched };
+}
+
+/**
+ * Redact a record's values (see `redactRecord`)
+ */
+export function redactFields(
+  record: Record<string, unknown> | undefined,
+  tableName: string,
+  config: NormalizedConfig,
+): Record<string, unknown> | undefined {
+  return record ? redactRecord(record, tableName, config).values : undefined;
+}
+
+function getAtPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Find redacted fields whose original values differ between before and after
+ * Returned as dot paths (array elements by index), e.g. `email`, `settings.slack.token`
+ */
+export function getRedactedChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  tableName: string,
+  config: NormalizedConfig,
+): string[] {
+  const paths = new Map<string, string[]>();
+  for (const record of [before, after]) {
+    for (const path of redactRecord(record, tableName, config).redactedPaths) {
+      paths.set(path.join("."), path);
+    }
+  }
+
+  return [...paths]
+    .filter(([, path]) => !isDeepStrictEqual(getAtPath(before, path), getAtPath(after, path)))
+    .map(([field]) => field);
+}
@@ -1,9 +1,16 @@
 import { isDeepStrictEqual } from "node:util";
+import type { AuditDiffValues } from "../types/audit.js";
 import type { NormalizedConfig } from "../types/config.js";
+import { omitFieldPaths, pickFieldPaths } from "./field-path.js";
+import { applyValueKeyStyle, toValuePaths } from "./value-keys.js";
+import { serializeRecord } from "./value-serializers.js";
 
 /**
  * Filter record fields based on configuration
- * Removes excluded fields and keeps only specified fields if configured
+ * Removes excluded fields and keeps only specified fields if configured.
+ * Both lists accept dot paths into nested values (see `omitFieldPaths`) and may name
+ * columns by property key or column name. Kept values are converted by the registered
+ * `serializers`, then keys are renamed per `valueKeyStyle`.
  */
 export function filterFields(
   record: Record<string, unknown> | undefined | null,
@@ -12,25 +19,24 @@ export function filterFields(
 ): Record<string, unknown> | undefined {
   if (!record) return undefined;
 
-  const filtered = { ...record };
-
-  // Remove globally excluded fields
-  for (const field of config.excludeFields) {
-    delete filtered[field];
-  }
+  // Remove excluded fields (the table's own list replaces the global one)
+  const excludeFields = config.tables[tableName]?.excludeFields ?? config.excludeFields;
+  let filtered = omitFieldPaths(record, toValuePaths(excludeFields, tableName, config));
 
   // If specific fields are configured for this table, keep only those
   const fields = config.fields as Record<string, string[] | undefined>;
   if (fields[tableName]) {
-    const allowedFields = fields[tableName];
-    for (const key of Object.keys(filtered)) {
-      if (!allowedFields.includes(key)) {
-        delete filtered[key];
-      }
-    }
+    filtered = pickFieldPaths(filtered, toValuePaths(fields[tableName], tableName, config));
   }
 
-  return filtered;
+  return applyValueKeyStyle(serializeRecord(filtered, tableName, config), tableName, config);
+}
+
+/**
+ * Drop log values for tables configured with `storeValues: false`
+ */
+export function getStoredValues<T>(values: T, tableName: string, config: NormalizedConfig) {
+  return config.tables[tableName]?.storeValues === false ? undefined : values;
 }
 
 /**
@@ -75,6 +81,48 @@ export function getChangedValues(
   return changed;
 }
 
+/**
+ * Get old and new values for keys that differ between before/after
+ * Missing values are stored as null so both sides survive JSON serialization
+ */
+export function getValueDiffs(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+): AuditDiffValues | undefined {
+  if (!before || !after) return undefined;
+
+  const diffs: AuditDiffValues = {};
+  const allKeys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of allKeys) {
+    if (!isDeepStrictEqual(before[key], after[key])) {
+      diffs[key] = { old: before[key] ?? null, new: after[key] ?? null };
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Check whether stored audit values use the "diff" shape `{ field: { old, new } }`
+ */
+export function isAuditDiffValues(values: unknown): values is AuditDiffValues {
+  if (typeof values !== "object" || values === null || Array.isArray(values)) return false;
+
+  const entries = Object.values(values);
+  return (
+    entries.length > 0 &&
+    entries.every(
+      (entry) =>
+        typeof entry === "object" &&
+        entry !== null &&
+        Object.keys(entry).length === 2 &&
+        "old" in entry &&
+        "new" in entry,
+    )
+  );
+}
+
 /**
  * Safely serialize a value for storage
  * Handles dates, bigints, and other special types
@@ -0,0 +1,28 @@
+import { getTableName, type Table } from "drizzle-orm";
+
+const DEFAULT_SCHEMA = "public";
+// Drizzle stores the `pgSchema` name under this registered symbol (`Table.Symbol.Schema`)
+const TABLE_SCHEMA = Symbol.for("drizzle:Schema");
+
+/**
+ * Build a table identity from a schema and table name
+ * Tables in `public` keep their bare name, others are qualified (e.g. `billing.accounts`).
+ */
+export function qualifyTableName(schema: string | undefined, name: string): string {
+  return schema && schema !== DEFAULT_SCHEMA ? `${schema}.${name}` : name;
+}
+
+/**
+ * Normalize a configured table name (`public.users` is the same table as `users`)
+ */
+export function normalizeTableName(name: string): string {
+  return name.startsWith(`${DEFAULT_SCHEMA}.`) ? name.slice(DEFAULT_SCHEMA.length + 1) : name;
+}
+
+/**
+ * Audit identity of a Drizzle table, including its `pgSchema` if any
+ */
+export function getAuditTableName(table: Table): string {
+  const schema = (table as unknown as Record<symbol, string | undefined>)[TABLE_SCHEMA];
+  return qualifyTableName(schema, getTableName(table));
+}
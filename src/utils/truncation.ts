@@ -0,0 +1,181 @@
+import { createHash } from "node:crypto";
+import type { AuditLog, AuditLogValues, TruncatedValue } from "../types/audit.js";
+import type { JsonPatchOperation } from "./json-patch.js";
+import { isAuditDiffValues, safeSerialize } from "./serializer.js";
+
+const PREVIEW_BYTES = 256;
+
+/**
+ * Smallest `maxEntryBytes` that still fits a truncation envelope with an empty preview
+ */
+export const MIN_ENTRY_BYTES = 160;
+
+export interface AuditSizeLimits {
+  maxFieldBytes: number | null;
+  maxEntryBytes: number | null;
+}
+
+/**
+ * A replaceable value inside `values` (a field, one side of a diff, or a patch operation value)
+ */
+interface ValueSlot {
+  label: string;
+  get: () => unknown;
+  set: (value: unknown) => void;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(safeSerialize(value)) ?? "null";
+}
+
+function byteSize(value: unknown): number {
+  return Buffer.byteLength(toJson(value));
+}
+
+/**
+ * Check whether a value is a truncation envelope
+ */
+export function isTruncatedValue(value: unknown): value is TruncatedValue {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { $truncated?: unknown }).$truncated === true
+  );
+}
+
+/**
+ * Replace a value with a preview, its SHA-256 digest and its original size
+ * Strings are previewed as text, other values as JSON.
+ */
+export function truncateValue(value: unknown, previewBytes = PREVIEW_BYTES): TruncatedValue {
+  const json = toJson(value);
+  const text = typeof value === "string" ? value : json;
+  // Cutting mid-character leaves a replacement character at the end
+  const preview = Buffer.from(text)
+    .subarray(0, previewBytes)
+    .toString("utf8")
+    .replace(/\uFFFD+$/, "");
+  return {
+    $truncated: true,
+    preview,
+    sha256: createHash("sha256").update(json).digest("hex"),
+    size: Buffer.byteLength(json),
+  };
+}
+
+/**
+ * Truncate a value with the longest preview that keeps the envelope within `maxBytes`
+ * (escaping can make the stored preview longer than its byte budget)
+ */
+function truncateToFit(value: unknown, maxBytes: number): TruncatedValue {
+  let previewBytes = PREVIEW_BYTES;
+  let envelope = truncateValue(value, previewBytes);
+  while (byteSize(envelope) > maxBytes && previewBytes > 0) {
+    previewBytes = Math.max(0, previewBytes - (byteSize(envelope) - maxBytes));
+    envelope = truncateValue(value, previewBytes);
+  }
+  return envelope;
+}
+
+function getSlots(values: AuditLogValues): ValueSlot[] {
+  if (Array.isArray(values)) {
+    return values.flatMap((operation, index) =>
+      "value" in operation
+        ? [
+            {
+              label: operation.path,
+              get: () => (values[index] as { value: unknown }).value,
+              set: (value: unknown) => {
+                values[index] = { ...operation, value } as JsonPatchOperation;
+              },
+            },
+          ]
+        : [],
+    );
+  }
+
+  if (isAuditDiffValues(values)) {
+    return Object.keys(values).flatMap((field) =>
+      (["old", "new"] as const).map((side) => ({
+        label: `${field}.${side}`,
+        get: () => values[field]![side],
+        set: (value: unknown) => {
+          values[field] = { ...values[field]!, [side]: value };
+        },
+      })),
+    );
+  }
+
+  return Object.keys(values).map((field) => ({
+    label: field,
+    get: () => values[field],
+    set: (value: unknown) => {
+      values[field] = value;
+    },
+  }));
+}
+
+function copyValues(values: AuditLogValues): AuditLogValues {
+  if (Array.isArray(values)) return [...values];
+  if (isAuditDiffValues(values)) {
+    return Object.fromEntries(Object.entries(values).map(([field, diff]) => [field, { ...diff }]));
+  }
+  return { ...values };
+}
+
+/**
+ * Enforce `maxFieldBytes` and `maxEntryBytes` on a log's values
+ * Oversized fields are truncated first; if the entry is still too large, its largest fields
+ * are truncated until it fits, and as a last resort the whole `values` object is replaced.
+ * Truncation is flagged in `metadata.truncated` / `metadata.truncatedFields`.
+ */
+export function truncateAuditLog(log: AuditLog, limits: AuditSizeLimits): AuditLog {
+  const { maxFieldBytes, maxEntryBytes } = limits;
+  if (!log.values || (maxFieldBytes === null && maxEntryBytes === null)) return log;
+
+  let values = copyValues(log.values);
+  const slots = getSlots(values);
+  const truncatedFields: string[] = [];
+  const previewBytes = Math.min(PREVIEW_BYTES, maxFieldBytes ?? PREVIEW_BYTES);
+  const truncate = (slot: ValueSlot) => {
+    slot.set(truncateValue(slot.get(), previewBytes));
+    truncatedFields.push(slot.label);
+  };
+
+  if (maxFieldBytes !== null) {
+    for (const slot of slots) {
+      if (slot.get() !== undefined && byteSize(slot.get()) > maxFieldBytes) {
+        truncate(slot);
+      }
+    }
+  }
+
+  let wholeEntry = false;
+  if (maxEntryBytes !== null && byteSize(values) > maxEntryBytes) {
+    const candidates = slots
+      .filter((slot) => !isTruncatedValue(slot.get()))
+      .map((slot) => ({ slot, size: byteSize(slot.get()) }))
+      .sort((a, b) => b.size - a.size);
+    for (const { slot, size } of candidates) {
+      if (byteSize(values) <= maxEntryBytes) break;
+      // Small values would only grow into an envelope
+      if (byteSize(truncateValue(slot.get(), previewBytes)) < size) truncate(slot);
+    }
+    if (byteSize(values) > maxEntryBytes) {
+      values = truncateToFit(log.values, maxEntryBytes) as unknown as Record<string, unknown>;
+      wholeEntry = true;
+    }
+  }
+
+  if (truncatedFields.length === 0 && !wholeEntry) return log;
+
+  return {
+    ...log,
+    values,
+    metadata: {
+      ...log.metadata,
+      truncated: true,
+      ...(truncatedFields.length > 0 && !wholeEntry && { truncatedFields }),
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import type { NormalizedConfig } from "../types/config.js";
+import { getTableColumns, type Table } from "drizzle-orm";
+
+/**
+ * Map each property key of a Drizzle table to its database column name
+ */
+export function getColumnNames(table: Table): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(getTableColumns(table)).map(([key, column]) => [key, column.name]),
+  );
+}
+
+/**
+ * Split a field path into its top-level key and the rest (`tags[].name` -> `tags`, `[].name`)
+ */
+function splitFirstSegment(path: string): [string, string] {
+  const end = path.search(/\[\]|\./);
+  return end === -1 ? [path, ""] : [path.slice(0, end), path.slice(end)];
+}
+
+/**
+ * Expand paths to every spelling of their top-level key (property key and column name)
+ * Records may be keyed either way (query builder rows, raw SQL rows, manual logs, stored
+ * values in any `valueKeyStyle`), so a configured path matches whichever is present.
+ */
+export function toValuePaths(
+  paths: string[],
+  tableName: string,
+  config: NormalizedConfig,
+): string[] {
+  const columns = config.tables[tableName]?.columns;
+  if (!columns) return paths;
+
+  const propertyByColumn = new Map(Object.entries(columns).map(([key, name]) => [name, key]));
+  const expanded = paths.flatMap((path) => {
+    const [first, rest] = splitFirstSegment(path);
+    const property = Object.hasOwn(columns, first) ? first : propertyByColumn.get(first);
+    if (!property) return [path];
+    return [`${property}${rest}`, `${columns[property]}${rest}`];
+  });
+  return [...new Set(expanded)];
+}
+
+/**
+ * Rename top-level column names to property keys (e.g. raw SQL rows)
+ * Keys that are not column names of the table are kept as they are.
+ */
+export function toPropertyKeys(
+  record: Record<string, unknown>,
+  tableName: string,
+  config: NormalizedConfig,
+): Record<string, unknown> {
+  const columns = config.tables[tableName]?.columns;
+  if (!columns) return record;
+
+  const propertyByColumn = new Map(Object.entries(columns).map(([key, name]) => [name, key]));
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [propertyByColumn.get(key) ?? key, value]),
+  );
+}
+
+/**
+ * Rename top-level property keys to column names according to `valueKeyStyle`
+ * Keys without column metadata (e.g. raw SQL rows) are kept as they are.
+ */
+export function applyValueKeyStyle(
+  record: Record<string, unknown>,
+  tableName: string,
+  config: NormalizedConfig,
+): Record<string, unknown> {
+  const columns = config.tables[tableName]?.columns;
+  if (!columns || config.valueKeyStyle === "property") return record;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const column = Object.hasOwn(columns, key) ? columns[key] : undefined;
+    if (config.valueKeyStyle === "both" || !column) {
+      result[key] = value;
+    }
+    if (column) {
+      result[column] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,203 @@
+import type { AuditValueSerializer, NormalizedConfig } from "../types/config.js";
+import { getTableColumns, type Table } from "drizzle-orm";
+
+/**
+ * Envelope written for serialized values when `tagSerializedValues` is enabled
+ */
+export interface TaggedAuditValue {
+  $type: string;
+  value: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+const DECIMAL_CLASSES = new Set(["Decimal", "Big", "BigNumber"]);
+
+/**
+ * `Buffer`, typed arrays and `ArrayBuffer` -> `{ base64, length }` (e.g. bytea columns)
+ */
+export const binarySerializer: AuditValueSerializer = {
+  name: "binary",
+  test: (value) => ArrayBuffer.isView(value) || value instanceof ArrayBuffer,
+  serialize: (value) => {
+    const bytes =
+      value instanceof ArrayBuffer
+        ? Buffer.from(value)
+        : Buffer.from(
+            (value as ArrayBufferView).buffer,
+            (value as ArrayBufferView).byteOffset,
+            (value as ArrayBufferView).byteLength,
+          );
+    return { base64: bytes.toString("base64"), length: bytes.length };
+  },
+  deserialize: (value) => Buffer.from((value as { base64: string }).base64, "base64"),
+};
+
+/**
+ * `Map` -> array of `[key, value]` entries
+ */
+export const mapSerializer: AuditValueSerializer = {
+  name: "map",
+  test: (value) => value instanceof Map,
+  serialize: (value) => [...(value as Map<unknown, unknown>).entries()],
+  deserialize: (value) => new Map(value as Array<[unknown, unknown]>),
+};
+
+/**
+ * `Set` -> array of members
+ */
+export const setSerializer: AuditValueSerializer = {
+  name: "set",
+  test: (value) => value instanceof Set,
+  serialize: (value) => [...(value as Set<unknown>)],
+  deserialize: (value) => new Set(value as unknown[]),
+};
+
+/**
+ * decimal.js, big.js and bignumber.js values -> exact decimal string
+ */
+export const decimalSerializer: AuditValueSerializer = {
+  name: "decimal",
+  test: (value) =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { toFixed?: unknown }).toFixed === "function" &&
+    DECIMAL_CLASSES.has(value.constructor?.name),
+  serialize: (value) => String(value),
+};
+
+/**
+ * `Date` -> ISO string (not registered by default; dates are stored as ISO strings anyway,
+ * add it together with `tagSerializedValues` to revive them as `Date`)
+ */
+export const dateSerializer: AuditValueSerializer = {
+  name: "date",
+  test: (value) => value instanceof Date,
+  serialize: (value) => (value as Date).toISOString(),
+  deserialize: (value) => new Date(value as string),
+};
+
+/**
+ * `bigint` -> decimal string (not registered by default, see `dateSerializer`)
+ */
+export const bigintSerializer: AuditValueSerializer = {
+  name: "bigint",
+  test: (value) => typeof value === "bigint",
+  serialize: (value) => (value as bigint).toString(),
+  deserialize: (value) => BigInt(value as string),
+};
+
+/**
+ * Serializers applied after any configured `serializers`
+ */
+export const DEFAULT_VALUE_SERIALIZERS: AuditValueSerializer[] = [
+  binarySerializer,
+  mapSerializer,
+  setSerializer,
+  decimalSerializer,
+];
+
+/**
+ * Map each property key of a Drizzle table to its SQL type (e.g. `numeric(10, 2)`)
+ */
+export function getColumnTypes(table: Table): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(getTableColumns(table)).map(([key, column]) => [key, column.getSQLType()]),
+  );
+}
+
+function matchesColumnType(serializer: AuditValueSerializer, sqlType: string): boolean {
+  const { columnType } = serializer;
+  if (columnType === undefined) return false;
+  return typeof columnType === "string"
+    ? sqlType.toLowerCase() === columnType.toLowerCase()
+    : columnType.test(sqlType);
+}
+
+function serializeValue(
+  value: unknown,
+  serializers: AuditValueSerializer[],
+  tag: boolean,
+  sqlType?: string,
+): unknown {
+  if (value === null || value === undefined) return value;
+
+  const serializer =
+    (sqlType && serializers.find((candidate) => matchesColumnType(candidate, sqlType))) ||
+    serializers.find((candidate) => candidate.test?.(value));
+  if (serializer) {
+    const serialized = serializer.serialize(value);
+    return tag
+      ? ({ $type: serializer.name, value: serialized } satisfies TaggedAuditValue)
+      : serialized;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeValue(item, serializers, tag));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeValue(item, serializers, tag)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Convert values with registered serializers so they survive JSON storage
+ * Column-type serializers apply to top-level columns; runtime-type serializers at any depth.
+ */
+export function serializeRecord(
+  record: Record<string, unknown>,
+  tableName: string,
+  config: NormalizedConfig,
+): Record<string, unknown> {
+  const serializers = config.serializers ?? [];
+  if (serializers.length === 0) return record;
+
+  const columnTypes = config.tables[tableName]?.columnTypes;
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      serializeValue(
+        value,
+        serializers,
+        config.tagSerializedValues,
+        columnTypes && Object.hasOwn(columnTypes, key) ? columnTypes[key] : undefined,
+      ),
+    ]),
+  );
+}
+
+function isTaggedValue(value: unknown): value is TaggedAuditValue {
+  return isPlainObject(value) && typeof value.$type === "string" && "value" in value;
+}
+
+/**
+ * Rebuild tagged values (see `tagSerializedValues`) with the serializers' `deserialize`
+ * Tags without a matching deserializer are left as they are.
+ */
+export function reviveAuditValues(
+  value: unknown,
+  serializers: AuditValueSerializer[] = DEFAULT_VALUE_SERIALIZERS,
+): unknown {
+  if (isTaggedValue(value)) {
+    const serializer = serializers.find((candidate) => candidate.name === value.$type);
+    if (serializer?.deserialize) {
+      return serializer.deserialize(value.value);
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => reviveAuditValues(item, serializers));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, reviveAuditValues(item, serializers)]),
+    );
+  }
+  return value;
+}
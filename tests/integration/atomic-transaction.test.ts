@@ -0,0 +1,135 @@
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { pgTable, serial, varchar } from "drizzle-orm/pg-core";
+import { Client } from "pg";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createAuditLogger, auditLogs } from "../../src/index.js";
+
+// Generate unique table name to avoid conflicts
+const TEST_ID = `atomic_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+const TABLE_NAME = `atomic_test_users_${TEST_ID}`;
+
+// Test schema with unique table name
+const testUsers = pgTable(TABLE_NAME, {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull(),
+});
+
+const describeIntegration =
+  process.env.AUDIT_RUN_INTEGRATION_TESTS === "true" ? describe : describe.skip;
+
+describeIntegration('transactionMode: "atomic"', () => {
+  let client: Client;
+  // Second connection that only sees committed rows
+  let otherClient: Client;
+  let originalDb: any;
+
+  const countCommitted = async () => {
+    const users = await otherClient.query(`SELECT count(*)::int AS count FROM "${TABLE_NAME}"`);
+    const logs = await otherClient.query(
+      "SELECT count(*)::int AS count FROM audit_logs WHERE table_name = $1",
+      [TABLE_NAME],
+    );
+    return { users: users.rows[0].count, auditLogs: logs.rows[0].count };
+  };
+
+  beforeAll(async () => {
+    const dbUrl = process.env.DATABASE_URL;
+    if (!dbUrl) {
+      throw new Error("DATABASE_URL is not set");
+    }
+
+    client = new Client(dbUrl);
+    otherClient = new Client(dbUrl);
+    await client.connect();
+    await otherClient.connect();
+    originalDb = drizzle(client);
+
+    // Create test table with unique name
+    await originalDb.execute(`
+      CREATE TABLE "${TABLE_NAME}" (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR(255) NOT NULL
+      )
+    `);
+  });
+
+  afterAll(async () => {
+    if (!originalDb || !client) {
+      return;
+    }
+
+    // Clean up only our test table
+    await originalDb.execute(`DROP TABLE IF EXISTS "${TABLE_NAME}" CASCADE`);
+    // Clean up only our audit logs
+    await originalDb.execute(`DELETE FROM audit_logs WHERE table_name = '${TABLE_NAME}'`);
+    await otherClient.end();
+    await client.end();
+  });
+
+  beforeEach(async () => {
+    if (!originalDb) {
+      return;
+    }
+
+    // Clear data before each test
+    await originalDb.execute(`TRUNCATE TABLE "${TABLE_NAME}" RESTART IDENTITY CASCADE`);
+    // Only delete audit logs for our table
+    await originalDb.execute(`DELETE FROM audit_logs WHERE table_name = '${TABLE_NAME}'`);
+  });
+
+  it("commits audit rows together with the business change", async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+      transactionMode: "atomic",
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.insert(testUsers).values({ email: "alice@example.com" });
+      // Written through the transaction, so not visible to other connections yet
+      expect(await countCommitted()).toEqual({ users: 0, auditLogs: 0 });
+    });
+
+    expect(await countCommitted()).toEqual({ users: 1, auditLogs: 1 });
+    const [log] = await originalDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.tableName, TABLE_NAME));
+    expect(log).toMatchObject({ action: "INSERT", recordId: "1" });
+    expect(log.transactionId).toBeTruthy();
+  });
+
+  it("rolls audit rows back with the business transaction", async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+      transactionMode: "atomic",
+    });
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.insert(testUsers).values({ email: "bob@example.com" });
+        throw new Error("abort");
+      }),
+    ).rejects.toThrow("abort");
+
+    expect(await countCommitted()).toEqual({ users: 0, auditLogs: 0 });
+  });
+
+  it("aborts the business transaction when the audit write fails", async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+      transactionMode: "atomic",
+      // Missing audit table makes every audit insert fail; strictMode stays off
+      auditTable: `missing_audit_logs_${TEST_ID}`,
+      logError: () => {},
+    });
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.insert(testUsers).values({ email: "carol@example.com" });
+      }),
+    ).rejects.toThrow();
+
+    expect(await countCommitted()).toEqual({ users: 0, auditLogs: 0 });
+  });
+});
@@ -0,0 +1,175 @@
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { Client } from "pg";
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { createAuditLogger, auditLogs } from "../../src/index.js";
+
+// Generate unique table name to avoid conflicts
+const TEST_ID = `lock_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+const TABLE_NAME = `lock_test_users_${TEST_ID}`;
+
+// Test schema with unique table name
+const testUsers = pgTable(TABLE_NAME, {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+});
+
+const describeIntegration =
+  process.env.AUDIT_RUN_INTEGRATION_TESTS === "true" ? describe : describe.skip;
+
+describeIntegration('beforeStateCapture: "lock"', () => {
+  let client: Client;
+  // Second connection standing in for a concurrent writer
+  let otherClient: Client;
+  let originalDb: any;
+
+  /**
+   * FOR KEY SHARE conflicts with the FOR UPDATE lock of the before-state SELECT, but not with
+   * the FOR NO KEY UPDATE lock an UPDATE of non-key columns takes on its own
+   */
+  const isLockedForUpdate = async (id: number) => {
+    try {
+      await otherClient.query("BEGIN");
+      await otherClient.query(`SELECT id FROM "${TABLE_NAME}" WHERE id = $1 FOR KEY SHARE NOWAIT`, [
+        id,
+      ]);
+      return false;
+    } catch (error) {
+      if ((error as { code?: string }).code === "55P03") return true;
+      throw error;
+    } finally {
+      await otherClient.query("ROLLBACK");
+    }
+  };
+
+  beforeAll(async () => {
+    const dbUrl = process.env.DATABASE_URL;
+    if (!dbUrl) {
+      throw new Error("DATABASE_URL is not set");
+    }
+
+    client = new Client(dbUrl);
+    otherClient = new Client(dbUrl);
+    await client.connect();
+    await otherClient.connect();
+    originalDb = drizzle(client);
+
+    // Create test table with unique name
+    await originalDb.execute(`
+      CREATE TABLE "${TABLE_NAME}" (
+        id SERIAL PRIMARY KEY,
+        name TEXT
+      )
+    `);
+  });
+
+  afterAll(async () => {
+    if (!originalDb || !client) {
+      return;
+    }
+
+    // Clean up only our test table
+    await originalDb.execute(`DROP TABLE IF EXISTS "${TABLE_NAME}" CASCADE`);
+    // Clean up only our audit logs
+    await originalDb.execute(`DELETE FROM audit_logs WHERE table_name = '${TABLE_NAME}'`);
+    await otherClient.end();
+    await client.end();
+  });
+
+  beforeEach(async () => {
+    if (!originalDb) {
+      return;
+    }
+
+    // Clear data before each test
+    await originalDb.execute(`TRUNCATE TABLE "${TABLE_NAME}" RESTART IDENTITY CASCADE`);
+    // Only delete audit logs for our table
+    await originalDb.execute(`DELETE FROM audit_logs WHERE table_name = '${TABLE_NAME}'`);
+    await originalDb.insert(testUsers).values({ name: "Old" });
+  });
+
+  it("holds the SELECT ... FOR UPDATE row lock until the surrounding transaction ends", async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+      beforeStateCapture: "lock",
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.update(testUsers).set({ name: "New" }).where(eq(testUsers.id, 1));
+      expect(await isLockedForUpdate(1)).toBe(true);
+    });
+
+    expect(await isLockedForUpdate(1)).toBe(false);
+    const logs = await originalDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.tableName, TABLE_NAME));
+    expect(logs).toHaveLength(1);
+    expect(logs[0].values).toEqual({ name: "New" });
+  });
+
+  it('only takes the UPDATE\'s own lock with "select"', async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.update(testUsers).set({ name: "New" }).where(eq(testUsers.id, 1));
+      expect(await isLockedForUpdate(1)).toBe(false);
+    });
+  });
+
+  it("opens an implicit transaction for the SELECT and UPDATE outside a transaction", async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+      beforeStateCapture: "lock",
+    });
+    const query = vi.spyOn(client, "query");
+
+    await db.update(testUsers).set({ name: "New" }).where(eq(testUsers.id, 1));
+
+    const statements = query.mock.calls.map(([statement]) =>
+      String(typeof statement === "string" ? statement : (statement as { text: string }).text),
+    );
+    query.mockRestore();
+    const begin = statements.findIndex((statement) => /^begin/i.test(statement));
+    const select = statements.findIndex((statement) => /for update$/i.test(statement));
+    const update = statements.findIndex((statement) => /^update/i.test(statement));
+    const commit = statements.findIndex((statement) => /^commit/i.test(statement));
+    expect(begin).toBeGreaterThanOrEqual(0);
+    expect([begin, select, update, commit]).toEqual([begin, begin + 1, begin + 2, begin + 3]);
+    expect(await isLockedForUpdate(1)).toBe(false);
+  });
+
+  it("locks the before state for each execution of a prepared statement", async () => {
+    const { db } = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+      beforeStateCapture: "lock",
+    });
+    const query = vi.spyOn(client, "query");
+
+    await db
+      .update(testUsers)
+      .set({ name: "New" })
+      .where(eq(testUsers.id, 1))
+      .prepare(`lock_prepared_${TEST_ID}`)
+      .execute();
+
+    const statements = query.mock.calls.map(([statement]) =>
+      String(typeof statement === "string" ? statement : (statement as { text: string }).text),
+    );
+    query.mockRestore();
+    const begin = statements.findIndex((statement) => /^begin/i.test(statement));
+    expect(begin).toBeGreaterThanOrEqual(0);
+    expect(statements[begin + 1]).toMatch(/for update$/i);
+    expect(statements[begin + 2]).toMatch(/^update/i);
+    expect(await isLockedForUpdate(1)).toBe(false);
+
+    const logs = await originalDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.tableName, TABLE_NAME));
+    expect(logs[0].values).toEqual({ name: "New" });
+  });
+});
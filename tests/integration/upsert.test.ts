@@ -0,0 +1,134 @@
+import { and, eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { pgTable, serial, text, varchar } from "drizzle-orm/pg-core";
+import { Client } from "pg";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createAuditLogger, auditLogs } from "../../src/index.js";
+
+// Generate unique table name to avoid conflicts
+const TEST_ID = `upsert_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+const TABLE_NAME = `upsert_test_users_${TEST_ID}`;
+
+// Test schema with unique table name
+const testUsers = pgTable(TABLE_NAME, {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  name: text("name"),
+});
+
+const describeIntegration =
+  process.env.AUDIT_RUN_INTEGRATION_TESTS === "true" ? describe : describe.skip;
+
+describeIntegration("Upsert insert/update detection", () => {
+  let client: Client;
+  let originalDb: any;
+
+  beforeAll(async () => {
+    const dbUrl = process.env.DATABASE_URL;
+    if (!dbUrl) {
+      throw new Error("DATABASE_URL is not set");
+    }
+
+    client = new Client(dbUrl);
+    await client.connect();
+    originalDb = drizzle(client);
+
+    // Create test table with unique name
+    await originalDb.execute(`
+      CREATE TABLE "${TABLE_NAME}" (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        name TEXT
+      )
+    `);
+  });
+
+  afterAll(async () => {
+    if (!originalDb || !client) {
+      return;
+    }
+
+    // Clean up only our test table
+    await originalDb.execute(`DROP TABLE IF EXISTS "${TABLE_NAME}" CASCADE`);
+    // Clean up only our audit logs
+    await originalDb.execute(`DELETE FROM audit_logs WHERE table_name = '${TABLE_NAME}'`);
+    await client.end();
+  });
+
+  beforeEach(async () => {
+    if (!originalDb) {
+      return;
+    }
+
+    // Clear data before each test
+    await originalDb.execute(`TRUNCATE TABLE "${TABLE_NAME}" RESTART IDENTITY CASCADE`);
+    // Only delete audit logs for our table
+    await originalDb.execute(`DELETE FROM audit_logs WHERE table_name = '${TABLE_NAME}'`);
+  });
+
+  it("logs new rows as INSERT and conflicting rows as UPDATE using xmax", async () => {
+    await originalDb.insert(testUsers).values({ email: "existing@example.com", name: "Old" });
+
+    const auditLogger = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+    });
+    const { db, setContext } = auditLogger;
+    setContext({ userId: "test-user" });
+
+    const result = await db
+      .insert(testUsers)
+      .values([
+        { email: "existing@example.com", name: "New" },
+        { email: "fresh@example.com", name: "Fresh" },
+      ])
+      .onConflictDoUpdate({ target: testUsers.email, set: { name: "New" } })
+      .returning();
+
+    // The xmax flag used for detection is not returned to the caller
+    expect(result).toEqual([
+      { id: 1, email: "existing@example.com", name: "New" },
+      { id: 3, email: "fresh@example.com", name: "Fresh" },
+    ]);
+
+    const logs = await originalDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.tableName, TABLE_NAME))
+      .orderBy(auditLogs.recordId);
+
+    expect(logs).toHaveLength(2);
+    expect(logs[0]).toMatchObject({
+      action: "UPDATE",
+      recordId: "1",
+      values: { name: "New" },
+    });
+    expect(logs[1]).toMatchObject({
+      action: "INSERT",
+      recordId: "3",
+      values: { id: 3, email: "fresh@example.com", name: "Fresh" },
+    });
+  });
+
+  it("logs an upsert that only inserts as INSERT", async () => {
+    const auditLogger = createAuditLogger(originalDb, {
+      tables: { [TABLE_NAME]: { primaryKey: "id" } },
+    });
+
+    await auditLogger.db
+      .insert(testUsers)
+      .values({ email: "only@example.com", name: "Only" })
+      .onConflictDoUpdate({ target: testUsers.email, set: { name: "Only" } });
+
+    const logs = await originalDb
+      .select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.tableName, TABLE_NAME), eq(auditLogs.action, "UPDATE")));
+    expect(logs).toHaveLength(0);
+
+    const inserts = await originalDb
+      .select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.tableName, TABLE_NAME), eq(auditLogs.action, "INSERT")));
+    expect(inserts).toHaveLength(1);
+  });
+});
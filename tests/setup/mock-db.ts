@@ -0,0 +1,42 @@
+import type { AuditLog } from "../../src/types/audit.js";
+import type { AuditConfig, AuditCustomWriter } from "../../src/types/config.js";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+
+/**
+ * Create an AuditLogger over a pg-proxy db for unit tests
+ * Each query answers with the next entry of `responses` (rows as arrays of column values,
+ * in table column order); audit logs go to a mocked `customWriter` unless one is configured.
+ */
+export function createMockAuditDb<TSchema extends Record<string, unknown>>(
+  responses: unknown[][][],
+  config: AuditConfig<TSchema>,
+  options: { schema?: TSchema } = {},
+) {
+  const queries: string[] = [];
+  const params: unknown[][] = [];
+  const client = vi.fn(async (sql: string, queryParams: unknown[]) => {
+    queries.push(sql);
+    params.push(queryParams);
+    return { rows: responses.shift() ?? [] };
+  });
+  const rawDb = drizzle(client, {
+    schema: options.schema,
+  }) as unknown as PostgresJsDatabase<TSchema>;
+  const customWriter = vi.fn<AuditCustomWriter>();
+  const logger = new AuditLogger(rawDb, { customWriter, ...config });
+  const logs = (): AuditLog[] => customWriter.mock.calls.flatMap(([batch]) => batch);
+
+  return {
+    logger,
+    db: logger.createAuditedDb(),
+    rawDb,
+    client,
+    queries,
+    params,
+    customWriter,
+    logs,
+  };
+}
@@ -49,3 +49,13 @@ auditLogger.logInsert("users", { id: 1 });
 
 // @ts-expect-error invalid field for logInsert
 auditLogger.logInsert("company_document", { nope: 1 });
+
+createAuditLogger(db, {
+  tables: { company_document: { primaryKey: "id" } },
+  customWriter: (logs) => {
+    const tableNames: Array<"company_document"> = logs.map((log) => log.tableName);
+    // @ts-expect-error customWriter logs only carry schema table names
+    const invalid: Array<"users"> = logs.map((log) => log.tableName);
+    return void [tableNames, invalid];
+  },
+});
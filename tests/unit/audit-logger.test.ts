@@ -20,6 +20,18 @@ describe("AuditLogger", () => {
     });
   });
 
+  describe("Configuration", () => {
+    it("should reject malformed field paths", () => {
+      expect(
+        () =>
+          new AuditLogger(mockDb, {
+            tables: { users: { primaryKey: "id" } },
+            excludeFields: ["settings..token"],
+          }),
+      ).toThrow('Invalid field path: "settings..token"');
+    });
+  });
+
   describe("Context Management", () => {
     it("should set and get audit context", () => {
       const context = {
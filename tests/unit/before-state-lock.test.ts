@@ -0,0 +1,122 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { eq, sql } from "drizzle-orm";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+});
+
+const setup = (
+  responses: unknown[][][],
+  beforeStateCapture: "select" | "lock",
+  config: Partial<AuditConfig> = {},
+) => {
+  const mock = createMockAuditDb(responses, {
+    tables: { users: { primaryKey: "id" } },
+    beforeStateCapture,
+    ...config,
+  });
+  const db = mock.rawDb as any;
+  // pg-proxy has no transactions; record their boundaries instead
+  db.transaction = vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => {
+    mock.queries.push("begin");
+    const tx = Object.assign(Object.create(db), { rollback: () => {} });
+    const result = await callback(tx);
+    mock.queries.push("commit");
+    return result;
+  });
+  return {
+    db,
+    auditedDb: mock.db,
+    queries: mock.queries,
+    params: mock.params,
+    customWriter: mock.customWriter,
+  };
+};
+
+describe('beforeStateCapture: "lock"', () => {
+  it("locks the before state and runs the UPDATE in an implicit transaction", async () => {
+    const { auditedDb, queries, customWriter } = setup([[[1, "Old"]], [[1, "New"]]], "lock");
+
+    const result = await auditedDb.update(users).set({ name: "New" }).where(eq(users.id, 1));
+
+    expect(queries[0]).toBe("begin");
+    expect(queries[1]).toMatch(/^select .* from "users" where .* for update$/);
+    expect(queries[2]).toMatch(/^update "users" set/);
+    expect(queries[3]).toBe("commit");
+    expect(result).toEqual([{ id: 1, name: "New" }]);
+    expect(customWriter.mock.calls[0]?.[0]).toEqual([
+      { action: "UPDATE", tableName: "users", recordId: "1", values: { name: "New" } },
+    ]);
+  });
+
+  it("reuses the surrounding transaction instead of opening a new one", async () => {
+    const { auditedDb, db, queries } = setup([[[1, "Old"]], [[1, "New"]]], "lock");
+
+    await auditedDb.transaction(async (tx: any) => {
+      await tx.update(users).set({ name: "New" }).where(eq(users.id, 1));
+    });
+
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(queries).toHaveLength(4);
+    expect(queries[1]).toMatch(/for update$/);
+  });
+
+  it("locks the before state on every execution of a prepared UPDATE", async () => {
+    const { auditedDb, queries, params, customWriter } = setup(
+      [[[1, "Old"]], [[1, "New"]], [[2, "Old"]], [[2, "Newer"]]],
+      "lock",
+    );
+    const renameUser = auditedDb
+      .update(users)
+      .set({ name: sql.placeholder("name") })
+      .where(eq(users.id, sql.placeholder("id")))
+      .prepare("rename_user");
+
+    await renameUser.execute({ id: 1, name: "New" });
+    await renameUser.execute({ id: 2, name: "Newer" });
+
+    expect(queries.filter((query) => query === "begin")).toHaveLength(2);
+    // params only holds statements sent to the driver, without the begin/commit markers
+    expect(queries[1]).toMatch(/for update$/);
+    expect(queries[5]).toMatch(/for update$/);
+    expect([params[0], params[2]]).toEqual([[1], [2]]);
+    expect(customWriter.mock.calls.map(([logs]) => logs[0]?.values)).toEqual([
+      { name: "New" },
+      { name: "Newer" },
+    ]);
+  });
+
+  it("reports an UPDATE that cannot be locked and rejects it on strict tables", async () => {
+    const logError = vi.fn();
+    const { auditedDb, db, queries } = setup([[[1, "Old"]], [[1, "New"]]], "lock", { logError });
+    db.transaction = undefined;
+
+    await auditedDb.update(users).set({ name: "New" }).where(eq(users.id, 1));
+
+    expect(queries[0]).not.toMatch(/for update/);
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Failed to audit statement:",
+      expect.objectContaining({ message: expect.stringContaining("Cannot lock") }),
+    );
+
+    const strict = setup([], "lock", { strictMode: true });
+    strict.db.transaction = undefined;
+    await expect(
+      strict.auditedDb.update(users).set({ name: "New" }).where(eq(users.id, 1)),
+    ).rejects.toThrow("Cannot lock the before state of UPDATE on users");
+    expect(strict.queries).toHaveLength(0);
+  });
+
+  it('keeps the plain SELECT in "select" mode', async () => {
+    const { auditedDb, db, queries } = setup([[[1, "Old"]], [[1, "New"]]], "select");
+
+    await auditedDb.update(users).set({ name: "New" }).where(eq(users.id, 1));
+
+    expect(db.transaction).not.toHaveBeenCalled();
+    expect(queries[0]).not.toMatch(/for update/);
+  });
+});
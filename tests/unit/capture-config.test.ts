@@ -4,6 +4,7 @@ import { createDeleteAuditLogs } from "../../src/capture/delete.js";
 import { createInsertAuditLogs } from "../../src/capture/insert.js";
 import { createUpdateAuditLogs } from "../../src/capture/update.js";
 import { DEFAULT_AUDIT_COLUMN_MAP } from "../../src/storage/column-map.js";
+import { isAuditDiffValues } from "../../src/utils/serializer.js";
 
 describe("Capture Configuration (Unit Tests)", () => {
   let mockConfig: NormalizedConfig;
@@ -13,6 +14,7 @@ describe("Capture Configuration (Unit Tests)", () => {
       tables: { test_users: { primaryKey: "id" } },
       fields: {},
       excludeFields: ["password"],
+      redact: {},
       auditTable: "audit_logs",
       auditColumnMap: DEFAULT_AUDIT_COLUMN_MAP,
       strictMode: false,
@@ -20,7 +22,13 @@ describe("Capture Configuration (Unit Tests)", () => {
       getMetadata: vi.fn().mockReturnValue({}),
       logError: vi.fn(),
       updateValuesMode: "full",
+      beforeStateCapture: "select",
+      noWhereClausePolicy: "warn",
+      noWhereClauseCaptureLimit: 1000,
+      transactionMode: "immediate",
+      readSummaryThreshold: 100,
       batch: null,
+      rawSql: null,
       customWriter: undefined,
     };
   });
@@ -142,6 +150,96 @@ describe("Capture Configuration (Unit Tests)", () => {
         email: "missing@example.com",
         name: "Missing Before",
       });
+      expect(logWithBefore?.metadata).toBeUndefined();
+      expect(logWithoutBefore?.metadata).toEqual({ beforeStateMissing: true });
+    });
+  });
+
+  describe('UPDATE capture with updateValuesMode="diff"', () => {
+    beforeEach(() => {
+      mockConfig.updateValuesMode = "diff";
+    });
+
+    it("should capture old and new values of changed fields", () => {
+      const beforeRecords = [{ id: 1, email: "same@example.com", name: "Old Name" }];
+      const afterRecords = [{ id: 1, email: "same@example.com", name: "New Name" }];
+
+      const logs = createUpdateAuditLogs("test_users", beforeRecords, afterRecords, mockConfig);
+
+      expect(logs).toEqual([
+        {
+          action: "UPDATE",
+          tableName: "test_users",
+          recordId: "1",
+          values: { name: { old: "Old Name", new: "New Name" } },
+        },
+      ]);
+      expect(isAuditDiffValues(logs[0]?.values)).toBe(true);
+    });
+
+    it("should store missing sides as null", () => {
+      const logs = createUpdateAuditLogs(
+        "test_users",
+        [{ id: 1, name: "Name" }],
+        [{ id: 1, name: "Name", email: "added@example.com" }],
+        mockConfig,
+      );
+
+      expect(logs[0]?.values).toEqual({ email: { old: null, new: "added@example.com" } });
+    });
+
+    it("should not create log if nothing changed", () => {
+      const record = { id: 1, email: "same@example.com", name: "Same" };
+
+      const logs = createUpdateAuditLogs("test_users", [record], [record], mockConfig);
+
+      expect(logs).toHaveLength(0);
+    });
+
+    it("should log full after values when before state is missing", () => {
+      const afterRecords = [{ id: 1, email: "new@example.com", name: "New Name" }];
+
+      const logs = createUpdateAuditLogs("test_users", [], afterRecords, mockConfig);
+
+      expect(logs[0]?.values).toEqual(afterRecords[0]);
+      expect(logs[0]?.metadata).toEqual({ beforeStateMissing: true });
+      expect(isAuditDiffValues(logs[0]?.values)).toBe(false);
+    });
+
+    it("should flag full rows that look like diffs when before state is missing", () => {
+      const afterRecords = [{ id: 1, range: { old: 0, new: 10 } }];
+      mockConfig.fields = { test_users: ["range"] };
+
+      const logs = createUpdateAuditLogs("test_users", [], afterRecords, mockConfig);
+
+      expect(isAuditDiffValues(logs[0]?.values)).toBe(true);
+      expect(logs[0]?.metadata).toEqual({ beforeStateMissing: true });
+    });
+  });
+
+  describe('UPDATE capture with updateValuesMode="patch"', () => {
+    beforeEach(() => {
+      mockConfig.updateValuesMode = "patch";
+    });
+
+    it("should store JSON Patch operations for nested changes", () => {
+      const beforeRecords = [{ id: 1, profile: { city: "Oslo", zip: "0150" } }];
+      const afterRecords = [{ id: 1, profile: { city: "Bergen", zip: "0150" } }];
+
+      const logs = createUpdateAuditLogs("test_users", beforeRecords, afterRecords, mockConfig);
+
+      expect(logs[0]?.values).toEqual([
+        { op: "test", path: "/profile/city", value: "Oslo" },
+        { op: "replace", path: "/profile/city", value: "Bergen" },
+      ]);
+    });
+
+    it("should not create log if nothing changed", () => {
+      const record = { id: 1, profile: { city: "Oslo" } };
+
+      const logs = createUpdateAuditLogs("test_users", [record], [record], mockConfig);
+
+      expect(logs).toHaveLength(0);
     });
   });
 
@@ -180,6 +278,8 @@ describe("Capture Configuration (Unit Tests)", () => {
       expect(logs).toHaveLength(2);
       logs.forEach((log) => {
         expect(log.values).toBeDefined();
+        // Full rows are the expected shape in "full" mode
+        expect(log.metadata).toBeUndefined();
       });
     });
   });
@@ -301,6 +401,72 @@ describe("Capture Configuration (Unit Tests)", () => {
         email: "test@example.com",
       });
     });
+
+    it("should exclude nested fields matched by dot paths and wildcards", () => {
+      mockConfig.excludeFields = ["password", "settings.*.token", "profile.addresses[].street"];
+
+      const record = {
+        id: 1,
+        settings: {
+          theme: "dark",
+          slack: { token: "xoxb-1", channel: "#ops" },
+          github: { token: "ghp-1" },
+        },
+        profile: { addresses: [{ street: "Main St 1", city: "Oslo" }, { city: "Bergen" }] },
+      };
+
+      const logs = createInsertAuditLogs("test_users", [record], mockConfig);
+
+      expect(logs[0].values).toEqual({
+        id: 1,
+        settings: { theme: "dark", slack: { channel: "#ops" }, github: {} },
+        profile: { addresses: [{ city: "Oslo" }, { city: "Bergen" }] },
+      });
+      // The captured record itself is not modified
+      expect(record.settings.slack.token).toBe("xoxb-1");
+    });
+
+    it("should keep only nested fields allowed by dot paths", () => {
+      mockConfig.fields = {
+        test_users: ["id", "settings.theme", "profile.addresses[].city"],
+      };
+
+      const record = {
+        id: 1,
+        email: "test@example.com",
+        settings: { theme: "dark", slack: { token: "xoxb-1" } },
+        profile: { addresses: [{ street: "Main St 1", city: "Oslo" }], phone: "123" },
+      };
+
+      const logs = createInsertAuditLogs("test_users", [record], mockConfig);
+
+      expect(logs[0].values).toEqual({
+        id: 1,
+        settings: { theme: "dark" },
+        profile: { addresses: [{ city: "Oslo" }] },
+      });
+    });
+
+    it("should apply nested exclusions before diffing UPDATE values", () => {
+      mockConfig.updateValuesMode = "diff";
+      mockConfig.excludeFields = ["settings.*.token"];
+
+      const before = { id: 1, settings: { slack: { token: "old", channel: "#ops" } } };
+      const tokenOnly = { id: 1, settings: { slack: { token: "new", channel: "#ops" } } };
+      const channel = { id: 1, settings: { slack: { token: "new", channel: "#dev" } } };
+
+      expect(createUpdateAuditLogs("test_users", [before], [tokenOnly], mockConfig)).toHaveLength(
+        0,
+      );
+      expect(
+        createUpdateAuditLogs("test_users", [before], [channel], mockConfig)[0]?.values,
+      ).toEqual({
+        settings: {
+          old: { slack: { channel: "#ops" } },
+          new: { slack: { channel: "#dev" } },
+        },
+      });
+    });
   });
 
   describe("Performance implications", () => {
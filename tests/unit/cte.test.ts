@@ -0,0 +1,79 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { eq, inArray } from "drizzle-orm";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+});
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig> = {}) =>
+  createMockAuditDb(responses, { tables: { users: { primaryKey: "id" } }, ...config });
+
+describe("CTE query builders", () => {
+  it("audits db.with(cte).update() and keeps the CTE in the before-state SELECT", async () => {
+    const { db, queries, logs } = setup([[[1, "Old"]], [[1, "New"]]]);
+    const stale = db.$with("stale").as(db.select({ id: users.id }).from(users));
+
+    await db
+      .with(stale)
+      .update(users)
+      .set({ name: "New" })
+      .where(inArray(users.id, db.select({ id: stale.id }).from(stale)));
+
+    expect(queries[0]).toMatch(/^with "stale" as \(.*\) select .* from "users" where/);
+    expect(queries[1]).toMatch(/^with "stale" as \(.*\) update "users"/);
+    expect(logs()).toEqual([
+      { action: "UPDATE", tableName: "users", recordId: "1", values: { name: "New" } },
+    ]);
+  });
+
+  it("audits db.with(cte).insert() and db.with(cte).delete()", async () => {
+    const { db, logs } = setup([[[2, "Bee"]], [[3, "Cee"]]]);
+    const stale = db.$with("stale").as(db.select({ id: users.id }).from(users));
+
+    await db.with(stale).insert(users).values({ name: "Bee" });
+    await db
+      .with(stale)
+      .delete(users)
+      .where(inArray(users.id, db.select({ id: stale.id }).from(stale)));
+
+    expect(logs()).toMatchObject([
+      { action: "INSERT", recordId: "2" },
+      { action: "DELETE", recordId: "3" },
+    ]);
+  });
+
+  it("rejects an audited write used as a data-modifying CTE", () => {
+    const { db, queries } = setup([]);
+
+    expect(() =>
+      db.$with("removed").as(db.delete(users).where(eq(users.id, 1)).returning()),
+    ).toThrow("DELETE on users inside $with() cannot be audited");
+    expect(queries).toHaveLength(0);
+  });
+
+  it("audits the same write run through db.with(cte)", async () => {
+    const { db, logs } = setup([[[1, "Ann"]]]);
+    const targets = db.$with("targets").as(db.select({ id: users.id }).from(users));
+
+    await db
+      .with(targets)
+      .delete(users)
+      .where(inArray(users.id, db.select({ id: targets.id }).from(targets)));
+
+    expect(logs()).toEqual([
+      { action: "DELETE", tableName: "users", recordId: "1", values: { id: 1, name: "Ann" } },
+    ]);
+  });
+
+  it("allows data-modifying CTEs for actions the table does not audit", () => {
+    const { db } = setup([], { tables: { users: { primaryKey: "id", actions: ["INSERT"] } } });
+
+    expect(() =>
+      db.$with("removed").as(db.delete(users).where(eq(users.id, 1)).returning()),
+    ).not.toThrow();
+  });
+});
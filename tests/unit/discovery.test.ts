@@ -0,0 +1,85 @@
+import { relations } from "drizzle-orm";
+import { integer, pgEnum, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { matchesTablePattern } from "../../src/utils/discovery.js";
+
+const users = pgTable("users", { id: serial("id").primaryKey(), name: text("name") });
+const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id"),
+});
+const postsArchive = pgTable("posts_archive", { id: serial("id").primaryKey() });
+const tmpImport = pgTable("tmp_import", { id: serial("id").primaryKey() });
+const pageViews = pgTable("page_views", { path: text("path") });
+
+const schema = {
+  users,
+  posts,
+  postsArchive,
+  tmpImport,
+  pageViews,
+  role: pgEnum("role", ["admin", "member"]),
+  postsRelations: relations(posts, ({ one }) => ({
+    author: one(users, { fields: [posts.authorId], references: [users.id] }),
+  })),
+};
+
+const createLogger = (config: Record<string, unknown>) =>
+  new AuditLogger({} as any, { customWriter: vi.fn(), ...config }) as any;
+
+describe("Table discovery", () => {
+  it("builds tables from the schema with include/exclude patterns", () => {
+    const logger = createLogger({
+      discover: { schema, exclude: ["*_archive", /^tmp_/], logSummary: false },
+    });
+
+    expect(logger.config.tables).toMatchObject({
+      users: { primaryKey: "id" },
+      posts: { primaryKey: "id" },
+    });
+    expect(Object.keys(logger.config.tables)).toEqual(["users", "posts"]);
+  });
+
+  it("lets explicit tables override discovered ones", () => {
+    const logger = createLogger({
+      tables: { users: { primaryKey: "id", auditReads: true }, page_views: { primaryKey: "path" } },
+      discover: { schema, include: ["users", "page_*"], logSummary: false },
+    });
+
+    expect(Object.keys(logger.config.tables)).toEqual(["users", "page_views"]);
+    expect(logger.config.tables.users.auditReads).toBe(true);
+  });
+
+  it("reports a startup summary of audited and skipped tables through logInfo", () => {
+    const logInfo = vi.fn();
+
+    createLogger({ discover: { schema, include: ["p*"] }, logInfo });
+    expect(logInfo).toHaveBeenCalledWith(
+      "[AUDIT] Auditing 2 table(s): posts, posts_archive\n" +
+        "[AUDIT] Skipped 3 table(s): users (not included), tmp_import (not included), " +
+        "page_views (no primary key)",
+    );
+
+    logInfo.mockClear();
+    createLogger({ discover: { schema, include: ["p*"], logSummary: false }, logInfo });
+    expect(logInfo).not.toHaveBeenCalled();
+  });
+
+  it("prints the summary with console.log when no logInfo is configured", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    createLogger({ discover: { schema, include: ["posts"] } });
+
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("[AUDIT] Auditing 1 table(s): posts"));
+    log.mockRestore();
+  });
+
+  it("matches globs against the whole table name", () => {
+    expect(matchesTablePattern("posts_archive", "*_archive")).toBe(true);
+    expect(matchesTablePattern("posts_archive_v2", "*_archive")).toBe(false);
+    expect(matchesTablePattern("user", "use?")).toBe(true);
+    expect(matchesTablePattern("a.b", "a.b")).toBe(true);
+    expect(matchesTablePattern("axb", "a.b")).toBe(false);
+  });
+});
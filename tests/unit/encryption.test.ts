@@ -0,0 +1,173 @@
+import { randomBytes } from "node:crypto";
+import type { AuditConfig } from "../../src/types/config.js";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import {
+  createStaticKeyProvider,
+  decryptAuditLog,
+  isEncryptedValue,
+} from "../../src/utils/encryption.js";
+
+const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+
+const setup = (config: Partial<AuditConfig> = {}) => {
+  const customWriter = vi.fn();
+  const logger = new AuditLogger({} as any, {
+    tables: { users: { primaryKey: "id" } },
+    customWriter,
+    encryption: {
+      keyProvider: createStaticKeyProvider(keys, "k1"),
+      fields: ["email", "settings.*.secret"],
+    },
+    ...config,
+  });
+  const logs = () => customWriter.mock.calls.flatMap((call) => call[0]);
+  const contexts = () => customWriter.mock.calls.map((call) => call[1]);
+  return { logger, logs, contexts };
+};
+
+describe("Encryption", () => {
+  it("encrypts configured fields and decrypts them back", async () => {
+    const { logger, logs } = setup();
+
+    await logger.logInsert("users", {
+      id: 1,
+      email: "alice@example.com",
+      name: "Alice",
+      settings: { slack: { secret: "xoxb", channel: "#ops" } },
+    });
+
+    const [log] = logs();
+    expect(log.values.name).toBe("Alice");
+    expect(log.values.email).toMatchObject({ $encrypted: "aes-256-gcm", kid: "k1" });
+    expect(isEncryptedValue(log.values.settings.slack.secret)).toBe(true);
+    expect(log.values.settings.slack.channel).toBe("#ops");
+    expect(JSON.stringify(log)).not.toContain("alice@example.com");
+
+    const decrypted = await decryptAuditLog(log, createStaticKeyProvider(keys, "k1"));
+    expect(decrypted.values).toEqual({
+      id: 1,
+      email: "alice@example.com",
+      name: "Alice",
+      settings: { slack: { secret: "xoxb", channel: "#ops" } },
+    });
+  });
+
+  it("keeps entries written before a key rotation readable", async () => {
+    const before = setup();
+    await before.logger.logInsert("users", { id: 1, email: "old@example.com" });
+
+    const after = setup({
+      encryption: { keyProvider: createStaticKeyProvider(keys, "k2"), fields: ["email"] },
+    });
+    await after.logger.logInsert("users", { id: 2, email: "new@example.com" });
+
+    const [oldLog] = before.logs();
+    const [newLog] = after.logs();
+    expect(newLog.values.email.kid).toBe("k2");
+
+    const provider = createStaticKeyProvider(keys, "k2");
+    expect((await decryptAuditLog(oldLog, provider)).values.email).toBe("old@example.com");
+    expect((await decryptAuditLog(newLog, provider)).values.email).toBe("new@example.com");
+    await expect(
+      decryptAuditLog(oldLog, createStaticKeyProvider({ k2: keys.k2 }, "k2")),
+    ).rejects.toThrow('Unknown encryption key "k1"');
+  });
+
+  it("encrypts both sides of diff values and patch operation values", async () => {
+    const diff = setup({
+      updateValuesMode: "diff",
+      encryption: { keyProvider: createStaticKeyProvider(keys, "k1"), fields: ["email"] },
+    });
+    await diff.logger.logUpdate(
+      "users",
+      { id: 1, email: "a@x.com", name: "A" },
+      { id: 1, email: "b@x.com", name: "B" },
+    );
+    const [diffLog] = diff.logs();
+    expect(isEncryptedValue(diffLog.values.email.old)).toBe(true);
+    expect(isEncryptedValue(diffLog.values.email.new)).toBe(true);
+    expect(diffLog.values.name).toEqual({ old: "A", new: "B" });
+
+    const patch = setup({ updateValuesMode: "patch" });
+    await patch.logger.logUpdate(
+      "users",
+      { id: 1, email: "a@x.com", settings: { slack: { secret: "s1" } } },
+      { id: 1, email: "b@x.com", settings: { slack: { secret: "s2" } } },
+    );
+    const [patchLog] = patch.logs();
+    expect(patchLog.values.every((op: any) => isEncryptedValue(op.value))).toBe(true);
+    const decrypted = await decryptAuditLog(patchLog, createStaticKeyProvider(keys, "k1"));
+    expect(decrypted.values).toEqual([
+      { op: "test", path: "/email", value: "a@x.com" },
+      { op: "replace", path: "/email", value: "b@x.com" },
+      { op: "test", path: "/settings/slack/secret", value: "s1" },
+      { op: "replace", path: "/settings/slack/secret", value: "s2" },
+    ]);
+  });
+
+  it("encrypts metadata fields on logs and context", async () => {
+    const { logger, logs, contexts } = setup({
+      encryption: {
+        keyProvider: createStaticKeyProvider(keys, "k1"),
+        metadataFields: ["reason"],
+      },
+    });
+
+    await logger.withContext({ metadata: { reason: "gdpr request", ticket: 42 } }, async () => {
+      await logger.log({
+        action: "READ",
+        tableName: "users",
+        recordId: "1",
+        metadata: { reason: "support" },
+      });
+    });
+
+    expect(isEncryptedValue(logs()[0].metadata.reason)).toBe(true);
+    expect(isEncryptedValue(contexts()[0].metadata.reason)).toBe(true);
+    expect(contexts()[0].metadata.ticket).toBe(42);
+  });
+
+  it("drops logs instead of writing plaintext when encryption fails", async () => {
+    const logError = vi.fn();
+    const failing = {
+      getCurrentKey: () => Promise.reject(new Error("KMS unavailable")),
+      getKey: () => undefined,
+    };
+    const { logger, logs } = setup({
+      logError,
+      encryption: { keyProvider: failing, fields: ["email"] },
+    });
+
+    await logger.logInsert("users", { id: 1, email: "a@x.com" });
+
+    expect(logs()).toEqual([]);
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Failed to encrypt audit logs:",
+      expect.any(Error),
+    );
+
+    const strict = setup({
+      strictMode: true,
+      encryption: { keyProvider: failing, fields: ["email"] },
+    });
+    await expect(strict.logger.logInsert("users", { id: 1, email: "a@x.com" })).rejects.toThrow(
+      "KMS unavailable",
+    );
+  });
+
+  it("validates the encryption config", () => {
+    expect(() => setup({ encryption: { keyProvider: {} as any, fields: ["email"] } })).toThrow(
+      "encryption.keyProvider must implement getCurrentKey and getKey",
+    );
+    expect(() =>
+      setup({ encryption: { keyProvider: createStaticKeyProvider(keys, "k1") } }),
+    ).toThrow("encryption requires at least one of fields or metadataFields");
+    expect(() => createStaticKeyProvider({ k1: randomBytes(16) }, "k1")).toThrow(
+      'Encryption key "k1" must be 32 bytes',
+    );
+    expect(() => createStaticKeyProvider(keys, "k3")).toThrow(
+      'Current encryption key "k3" is not in the key set',
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+
+const makeDb = () => {
+  const rootExecute = vi.fn().mockResolvedValue({ rows: [{ id: "a1" }, { id: "a2" }] });
+  const txExecute = vi.fn().mockResolvedValue({ rows: [{ id: "t1" }] });
+  const tx: Record<string, unknown> = { execute: txExecute };
+  const db = {
+    execute: rootExecute,
+    transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(tx)),
+  };
+  return { db, rootExecute };
+};
+
+const setup = (config: Partial<AuditConfig> = {}) => {
+  const { db, rootExecute } = makeDb();
+  const logger = new AuditLogger(db as any, {
+    tables: { users: { primaryKey: "id" } },
+    getUserId: () => "u1",
+    ...config,
+  });
+  return { logger, auditedDb: logger.createAuditedDb(), rootExecute };
+};
+
+const dialect = new PgDialect();
+const sqlOf = (execute: ReturnType<typeof vi.fn>) =>
+  dialect.sqlToQuery(execute.mock.calls[0]![0]).sql;
+
+describe("Audit events", () => {
+  it("emits log and flush after a write with the resolved entry and stored ID", async () => {
+    const { logger, rootExecute } = setup();
+    const onLog = vi.fn();
+    const onFlush = vi.fn();
+    logger.on("log", onLog);
+    logger.on("flush", onFlush);
+
+    await logger.withContext({ ipAddress: "10.0.0.1", metadata: { source: "api" } }, () =>
+      logger.logInsert("users", [{ id: 1 }, { id: 2 }]),
+    );
+
+    expect(sqlOf(rootExecute)).toContain("RETURNING");
+    expect(onLog).toHaveBeenCalledTimes(2);
+    expect(onLog.mock.calls[0]![0]).toMatchObject({
+      id: "a1",
+      action: "INSERT",
+      tableName: "users",
+      recordId: "1",
+      userId: "u1",
+      ipAddress: "10.0.0.1",
+      metadata: { source: "api" },
+    });
+    expect(onFlush).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "a1" }),
+      expect.objectContaining({ id: "a2" }),
+    ]);
+  });
+
+  it("emits flush once per batch in batch mode", async () => {
+    const { logger } = setup({ batch: { batchSize: 10, flushInterval: 60_000 } });
+    const onFlush = vi.fn();
+    logger.on("flush", onFlush);
+
+    await logger.logInsert("users", { id: 1 });
+    await logger.logInsert("users", { id: 2 });
+    expect(onFlush).not.toHaveBeenCalled();
+    await logger.flush();
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush.mock.calls[0]![0].map((entry: any) => [entry.recordId, entry.id])).toEqual([
+      ["1", "a1"],
+      ["2", "a2"],
+    ]);
+    await logger.shutdown();
+  });
+
+  it("does not request stored IDs without log or flush listeners", async () => {
+    const { logger, rootExecute } = setup();
+    const unsubscribe = logger.on("log", vi.fn());
+    unsubscribe();
+
+    await logger.logInsert("users", { id: 1 });
+
+    expect(sqlOf(rootExecute)).not.toContain("RETURNING");
+  });
+
+  it("resolves entries for custom writers", async () => {
+    const customWriter = vi.fn();
+    const { logger } = setup({ customWriter });
+    const onLog = vi.fn();
+    logger.on("log", onLog);
+
+    await logger.logDelete("users", { id: 3 });
+
+    expect(customWriter).toHaveBeenCalledTimes(1);
+    expect(onLog).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "DELETE", recordId: "3", userId: "u1" }),
+    );
+    expect(onLog.mock.calls[0]![0].id).toBeUndefined();
+  });
+
+  it("emits error and dropped when a write fails", async () => {
+    const failure = new Error("sink unavailable");
+    const { logger } = setup({
+      customWriter: vi.fn().mockRejectedValue(failure),
+      logError: vi.fn(),
+    });
+    const onError = vi.fn();
+    const onDropped = vi.fn();
+    const onLog = vi.fn();
+    logger.on("error", onError);
+    logger.on("dropped", onDropped);
+    logger.on("log", onLog);
+
+    await logger.logInsert("users", { id: 1 });
+
+    expect(onError).toHaveBeenCalledWith(failure, [expect.objectContaining({ recordId: "1" })]);
+    expect(onDropped).toHaveBeenCalledWith(
+      [expect.objectContaining({ recordId: "1" })],
+      "write_failed",
+    );
+    expect(onLog).not.toHaveBeenCalled();
+  });
+
+  it('emits log at capture time with eventTiming "capture"', async () => {
+    const order: string[] = [];
+    const { logger } = setup({
+      eventTiming: "capture",
+      customWriter: () => {
+        order.push("write");
+      },
+    });
+    logger.on("log", () => {
+      order.push("log");
+    });
+    logger.on("flush", () => {
+      order.push("flush");
+    });
+
+    await logger.logInsert("users", { id: 1 });
+
+    expect(order).toEqual(["log", "write", "flush"]);
+  });
+
+  it("announces atomic writes on commit and drops them on rollback", async () => {
+    const { logger, auditedDb } = setup({ transactionMode: "atomic" });
+    const onLog = vi.fn();
+    const onDropped = vi.fn();
+    logger.on("log", onLog);
+    logger.on("dropped", onDropped);
+
+    await auditedDb.transaction(async () => {
+      await logger.logInsert("users", { id: 1 });
+      expect(onLog).not.toHaveBeenCalled();
+    });
+    await expect(
+      auditedDb.transaction(async () => {
+        await logger.logInsert("users", { id: 2 });
+        throw new Error("rollback");
+      }),
+    ).rejects.toThrow("rollback");
+
+    expect(onLog).toHaveBeenCalledTimes(1);
+    expect(onLog).toHaveBeenCalledWith(expect.objectContaining({ id: "t1", recordId: "1" }));
+    expect(onDropped).toHaveBeenCalledWith(
+      [expect.objectContaining({ recordId: "2" })],
+      "rolled_back",
+    );
+  });
+
+  it("drops deferred logs of rolled back transactions", async () => {
+    const { logger, auditedDb, rootExecute } = setup({ transactionMode: "deferred" });
+    const onDropped = vi.fn();
+    logger.on("dropped", onDropped);
+
+    await expect(
+      auditedDb.transaction(async () => {
+        await logger.logInsert("users", { id: 1 });
+        throw new Error("rollback");
+      }),
+    ).rejects.toThrow("rollback");
+
+    expect(rootExecute).not.toHaveBeenCalled();
+    expect(onDropped).toHaveBeenCalledWith(
+      [expect.objectContaining({ recordId: "1", userId: "u1" })],
+      "rolled_back",
+    );
+  });
+
+  it("isolates listener errors from the audited operation", async () => {
+    const logError = vi.fn();
+    const { logger } = setup({ logError });
+    logger.on("log", () => {
+      throw new Error("listener broke");
+    });
+    logger.on("flush", async () => {
+      throw new Error("async listener broke");
+    });
+
+    await expect(logger.logInsert("users", { id: 1 })).resolves.toBeUndefined();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Audit event listener failed:",
+      expect.objectContaining({ message: "listener broke" }),
+    );
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Audit event listener failed:",
+      expect.objectContaining({ message: "async listener broke" }),
+    );
+  });
+});
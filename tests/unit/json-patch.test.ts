@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { applyJsonPatch, createJsonPatch, reverseJsonPatch } from "../../src/utils/json-patch.js";
+
+const before = {
+  id: 1,
+  title: "Draft",
+  settings: { theme: "dark", layout: { columns: 2, "a/b": true }, legacy: "x" },
+  tags: ["a", "b"],
+};
+
+const after = {
+  id: 1,
+  title: "Final",
+  settings: { theme: "dark", layout: { columns: 3, "a/b": true }, beta: true },
+  tags: ["a", "b", "c"],
+};
+
+describe("JSON Patch", () => {
+  it("diffs nested objects key by key with test ops before replace/remove", () => {
+    expect(createJsonPatch(before, after)).toEqual([
+      { op: "test", path: "/title", value: "Draft" },
+      { op: "replace", path: "/title", value: "Final" },
+      { op: "test", path: "/settings/legacy", value: "x" },
+      { op: "remove", path: "/settings/legacy" },
+      { op: "test", path: "/settings/layout/columns", value: 2 },
+      { op: "replace", path: "/settings/layout/columns", value: 3 },
+      { op: "add", path: "/settings/beta", value: true },
+      { op: "test", path: "/tags", value: ["a", "b"] },
+      { op: "replace", path: "/tags", value: ["a", "b", "c"] },
+    ]);
+  });
+
+  it("escapes JSON Pointer tokens", () => {
+    expect(createJsonPatch({ "a/b": { "~": 1 } }, { "a/b": { "~": 2 } })).toContainEqual({
+      op: "replace",
+      path: "/a~1b/~0",
+      value: 2,
+    });
+  });
+
+  it("applies a patch without modifying the input", () => {
+    const patch = createJsonPatch(before, after);
+
+    expect(applyJsonPatch(before, patch)).toEqual(after);
+    expect(before.settings.layout.columns).toBe(2);
+  });
+
+  it("reverses a patch back to the original document", () => {
+    const patch = createJsonPatch(before, after);
+
+    expect(applyJsonPatch(after, reverseJsonPatch(patch))).toEqual(before);
+  });
+
+  it("supports array indexes and the end-of-array token", () => {
+    const patched = applyJsonPatch({ list: [1, 3] }, [
+      { op: "add", path: "/list/1", value: 2 },
+      { op: "add", path: "/list/-", value: 4 },
+      { op: "remove", path: "/list/0" },
+    ]);
+
+    expect(patched).toEqual({ list: [2, 3, 4] });
+  });
+
+  it("throws when a test op does not match", () => {
+    const patch = createJsonPatch({ title: "Draft" }, { title: "Final" });
+
+    expect(() => applyJsonPatch({ title: "Changed" }, patch)).toThrow(
+      "JSON Patch test failed at /title",
+    );
+  });
+
+  it("refuses to reverse replace/remove ops without the old value", () => {
+    expect(() => reverseJsonPatch([{ op: "remove", path: "/title" }])).toThrow(
+      "without the old value",
+    );
+  });
+});
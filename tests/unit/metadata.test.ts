@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { mergeMetadata } from "../../src/utils/metadata.js";
+import { getTransactionMetadata, mergeMetadata } from "../../src/utils/metadata.js";
 
 describe("mergeMetadata", () => {
   it("returns null when all inputs are empty or undefined", () => {
@@ -21,3 +21,21 @@ describe("mergeMetadata", () => {
     expect(result).toEqual({ a: 1, b: 2 });
   });
 });
+
+describe("getTransactionMetadata", () => {
+  it("returns null outside nested transactions", () => {
+    expect(getTransactionMetadata(undefined)).toBeNull();
+    expect(getTransactionMetadata({ transactionId: "tx-1", transactionDepth: 0 })).toBeNull();
+  });
+
+  it("returns savepoint details for nested transactions", () => {
+    expect(
+      getTransactionMetadata({
+        transactionId: "tx-1",
+        savepointId: "sp-2",
+        parentSavepointId: "sp-1",
+        transactionDepth: 2,
+      }),
+    ).toEqual({ savepointId: "sp-2", parentSavepointId: "sp-1", transactionDepth: 2 });
+  });
+});
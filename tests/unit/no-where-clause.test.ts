@@ -0,0 +1,116 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+});
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig> = {}) =>
+  createMockAuditDb(responses, { tables: { users: { primaryKey: "id" } }, ...config });
+
+describe("noWhereClausePolicy", () => {
+  it('warns and skips the before state by default ("warn")', async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { db, queries, logs } = setup([[[1, "New"]]]);
+
+    await db.update(users).set({ name: "New" });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("No WHERE clause"));
+    expect(queries).toHaveLength(1);
+    expect(logs()).toMatchObject([{ action: "UPDATE", recordId: "1" }]);
+    warn.mockRestore();
+  });
+
+  it('skips the before state silently with "ignore"', async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { db, queries } = setup([[[1, "New"]]], { noWhereClausePolicy: "ignore" });
+
+    await db.update(users).set({ name: "New" });
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(queries).toHaveLength(1);
+    warn.mockRestore();
+  });
+
+  it('captures the whole table as before state with "capture"', async () => {
+    const { db, queries, logs } = setup(
+      [
+        [
+          [1, "Old"],
+          [2, "Same"],
+        ],
+        [
+          [1, "New"],
+          [2, "New"],
+        ],
+      ],
+      { noWhereClausePolicy: "capture", noWhereClauseCaptureLimit: 5 },
+    );
+
+    await db.update(users).set({ name: "New" });
+
+    expect(queries[0]).toMatch(/^select .* from "users" limit \$1$/);
+    expect(logs()).toEqual([
+      { action: "UPDATE", tableName: "users", recordId: "1", values: { name: "New" } },
+      { action: "UPDATE", tableName: "users", recordId: "2", values: { name: "New" } },
+    ]);
+  });
+
+  it('logs a bulk entry when "capture" exceeds the row limit', async () => {
+    const { db, queries, logs } = setup(
+      [
+        [
+          [1, "Old"],
+          [2, "Old"],
+        ],
+        [
+          [1, "New"],
+          [2, "New"],
+        ],
+      ],
+      { noWhereClausePolicy: "capture", noWhereClauseCaptureLimit: 1 },
+    );
+
+    await db.update(users).set({ name: "New" });
+
+    expect(queries[1]).not.toContain("returning");
+    expect(logs()).toEqual([
+      { action: "BULK_UPDATE", tableName: "users", recordId: "*", metadata: { affectedRows: 2 } },
+    ]);
+  });
+
+  it('rejects the statement before it runs with "reject"', async () => {
+    const { db, queries, logs } = setup([], { noWhereClausePolicy: "reject" });
+
+    await expect(db.delete(users)).rejects.toThrow("without a WHERE clause");
+    await expect(db.update(users).set({ name: "x" })).rejects.toThrow("UPDATE on users");
+    expect(queries).toHaveLength(0);
+    expect(logs()).toEqual([]);
+  });
+
+  it('logs one BULK_DELETE entry with the affected count with "summary"', async () => {
+    const { db, queries, logs } = setup(
+      [
+        [
+          [1, "A"],
+          [2, "B"],
+          [3, "C"],
+        ],
+      ],
+      {
+        noWhereClausePolicy: "summary",
+      },
+    );
+
+    const deleted = await db.delete(users);
+
+    expect(queries).toEqual(['delete from "users"']);
+    expect(deleted).toHaveLength(3);
+    expect(logs()).toEqual([
+      { action: "BULK_DELETE", tableName: "users", recordId: "*", metadata: { affectedRows: 3 } },
+    ]);
+  });
+});
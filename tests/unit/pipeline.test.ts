@@ -0,0 +1,145 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  role: text("role"),
+});
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig> = {}) =>
+  createMockAuditDb(responses, { tables: { users: { primaryKey: "id" } }, ...config });
+
+describe("pipeline", () => {
+  it("runs middleware in order with the log and the audit context", async () => {
+    const order: string[] = [];
+    const { logger, db, logs } = setup([[[1, "Ann", "admin"]]], {
+      pipeline: [
+        (log, context) => {
+          order.push("first");
+          return { ...log, metadata: { ...log.metadata, tenant: context?.metadata?.tenant } };
+        },
+        async (log) => {
+          order.push("second");
+          return { ...log, metadata: { ...log.metadata, role: (log.values as any).role } };
+        },
+      ],
+    });
+
+    await logger.withContext({ userId: "u1", metadata: { tenant: "acme" } }, async () => {
+      await db.insert(users).values({ name: "Ann", role: "admin" });
+    });
+
+    expect(order).toEqual(["first", "second"]);
+    expect(logs()).toMatchObject([
+      { action: "INSERT", recordId: "1", metadata: { tenant: "acme", role: "admin" } },
+    ]);
+  });
+
+  it("drops entries for null or [] and splits entries returned as arrays", async () => {
+    const { db, logs } = setup(
+      [
+        [
+          [1, "Ann", "admin"],
+          [2, "Bob", "guest"],
+          [3, "Cy", "bot"],
+        ],
+      ],
+      {
+        pipeline: [
+          (log) => {
+            const role = (log.values as any).role;
+            if (role === "guest") return null;
+            if (role === "bot") return [];
+            return [log, { ...log, action: "ADMIN_CREATED" }];
+          },
+        ],
+      },
+    );
+
+    await db.insert(users).values([{ name: "Ann" }, { name: "Bob" }, { name: "Cy" }]);
+
+    expect(logs().map((log) => [log.action, log.recordId])).toEqual([
+      ["INSERT", "1"],
+      ["ADMIN_CREATED", "1"],
+    ]);
+  });
+
+  it("keeps the entry when a middleware returns undefined", async () => {
+    const { logger, logs } = setup([], {
+      pipeline: [
+        (log) => {
+          log.metadata = { source: "import" };
+        },
+      ],
+    });
+
+    await logger.logDelete("users", { id: 4, name: "Dee" });
+
+    expect(logs()).toMatchObject([{ action: "DELETE", metadata: { source: "import" } }]);
+  });
+
+  it("skips a failing middleware for that entry and reports the error", async () => {
+    const logError = vi.fn();
+    const { logger, logs } = setup([], {
+      logError,
+      pipeline: [
+        (log) => {
+          if (log.recordId === "1") throw new Error("lookup failed");
+          return { ...log, metadata: { checked: true } };
+        },
+        (log) => ({ ...log, metadata: { ...log.metadata, last: true } }),
+      ],
+    });
+
+    await logger.logInsert("users", [{ id: 1 }, { id: 2 }]);
+
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Audit pipeline middleware failed:",
+      expect.objectContaining({ message: "lookup failed" }),
+    );
+    expect(logs()).toMatchObject([
+      { recordId: "1", metadata: { last: true } },
+      { recordId: "2", metadata: { checked: true, last: true } },
+    ]);
+  });
+
+  it("rethrows middleware errors in strict mode", async () => {
+    const { logger, logs } = setup([], {
+      strictMode: true,
+      pipeline: [
+        () => {
+          throw new Error("lookup failed");
+        },
+      ],
+    });
+
+    await expect(logger.logInsert("users", { id: 1 })).rejects.toThrow("lookup failed");
+    expect(logs()).toEqual([]);
+  });
+
+  it("applies to the default writer and batch mode", async () => {
+    const tag = (log: any) => ({ ...log, metadata: { tagged: true } });
+    const direct = setup([], { customWriter: undefined, pipeline: [tag] });
+    const batched = setup([], {
+      pipeline: [tag],
+      batch: { batchSize: 10, flushInterval: 60_000, waitForWrite: true },
+    });
+
+    await direct.logger.logInsert("users", { id: 1 });
+    await batched.logger.logInsert("users", { id: 1 });
+
+    const insert = direct.queries.findIndex((query) => query.includes('INSERT INTO "audit_logs"'));
+    expect(JSON.parse(direct.params[insert]?.[0] as string)).toMatchObject([
+      { metadata: { tagged: true } },
+    ]);
+    expect(batched.logs()).toMatchObject([{ metadata: { tagged: true } }]);
+    await batched.logger.shutdown();
+  });
+
+  it("rejects entries that are not functions", () => {
+    expect(() => setup([], { pipeline: [{} as any] })).toThrow("pipeline[0] must be a function");
+  });
+});
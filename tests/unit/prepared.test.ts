@@ -0,0 +1,107 @@
+import { eq, sql } from "drizzle-orm";
+import { pgTable, serial, text, varchar } from "drizzle-orm/pg-core";
+import { describe, it, expect } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  name: text("name"),
+});
+
+const setup = (responses: unknown[][][]) =>
+  createMockAuditDb(responses, { tables: { users: { primaryKey: "id", auditReads: true } } });
+
+describe("Prepared statements and explicit execute()", () => {
+  it("audits every execution of a prepared INSERT", async () => {
+    const { db, queries, logs } = setup([
+      [[1, "a@example.com", "Ann"]],
+      [[2, "b@example.com", "Bob"]],
+    ]);
+    const insertUser = db
+      .insert(users)
+      .values({ email: sql.placeholder("email"), name: sql.placeholder("name") })
+      .prepare("insert_user");
+
+    await insertUser.execute({ email: "a@example.com", name: "Ann" });
+    await insertUser.execute({ email: "b@example.com", name: "Bob" });
+
+    expect(queries[0]).toMatch(/returning "id", "email", "name"$/);
+    expect(logs()).toMatchObject([
+      { action: "INSERT", recordId: "1", values: { name: "Ann" } },
+      { action: "INSERT", recordId: "2", values: { name: "Bob" } },
+    ]);
+  });
+
+  it("resolves placeholders in the before-state SELECT of a prepared UPDATE", async () => {
+    const { db, queries, params, logs } = setup([
+      [[1, "a@example.com", "Old"]],
+      [[1, "a@example.com", "New"]],
+    ]);
+    const renameUser = db
+      .update(users)
+      .set({ name: sql.placeholder("name") })
+      .where(eq(users.id, sql.placeholder("id")))
+      .prepare("rename_user");
+
+    const result = await renameUser.execute({ id: 1, name: "New" });
+
+    expect(queries[0]).toMatch(/^select .* where/);
+    expect(params[0]).toEqual([1]);
+    expect(result).toEqual([{ id: 1, email: "a@example.com", name: "New" }]);
+    expect(logs()).toEqual([
+      { action: "UPDATE", tableName: "users", recordId: "1", values: { name: "New" } },
+    ]);
+  });
+
+  it("resolves placeholders in the conflict lookup of a prepared upsert", async () => {
+    const { db, params, logs } = setup([
+      [[1, "a@example.com", "Old"]],
+      [[1, "a@example.com", "New", false]],
+    ]);
+    const upsertUser = db
+      .insert(users)
+      .values({ email: sql.placeholder("email"), name: sql.placeholder("name") })
+      .onConflictDoUpdate({ target: users.email, set: { name: sql`excluded.name` } })
+      .prepare("upsert_user");
+
+    const result = await upsertUser.execute({ email: "a@example.com", name: "New" });
+
+    expect(params[0]).toEqual(["a@example.com"]);
+    expect(result).toEqual([{ id: 1, email: "a@example.com", name: "New" }]);
+    expect(logs()).toMatchObject([{ action: "UPDATE", recordId: "1", values: { name: "New" } }]);
+  });
+
+  it("projects partial returning selections of prepared statements", async () => {
+    const { db } = setup([[[3, "c@example.com", "Cy"]]]);
+    const insertUser = db
+      .insert(users)
+      .values({ email: sql.placeholder("email") })
+      .returning({ id: users.id })
+      .prepare("insert_user_id");
+
+    expect(await insertUser.execute({ email: "c@example.com" })).toEqual([{ id: 3 }]);
+  });
+
+  it("audits explicit execute() on a query builder", async () => {
+    const { db, logs } = setup([[[4, "d@example.com", "Dee"]]]);
+
+    const deleted = await db.delete(users).where(eq(users.id, 4)).execute();
+
+    expect(deleted).toEqual([{ id: 4, email: "d@example.com", name: "Dee" }]);
+    expect(logs()).toMatchObject([{ action: "DELETE", recordId: "4" }]);
+  });
+
+  it("audits prepared reads on tables with auditReads", async () => {
+    const { db, logs } = setup([[[5, "e@example.com", "Eve"]]]);
+    const findUser = db
+      .select()
+      .from(users)
+      .where(eq(users.id, sql.placeholder("id")))
+      .prepare("find_user");
+
+    await findUser.execute({ id: 5 });
+
+    expect(logs()).toMatchObject([{ action: "READ", recordId: "5" }]);
+  });
+});
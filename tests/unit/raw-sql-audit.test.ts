@@ -0,0 +1,168 @@
+import { sql } from "drizzle-orm";
+import { integer, pgTable, text } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { parseRawStatement } from "../../src/core/raw-sql.js";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const setup = (rows: Record<string, unknown>[] = [], onUnparsed?: "warn" | "throw" | "ignore") => {
+  const logError = vi.fn();
+  const mock = createMockAuditDb([rows as unknown as unknown[][]], {
+    tables: { users: { primaryKey: "id" } },
+    rawSql: { onUnparsed },
+    logError,
+  });
+  return { ...mock, logError };
+};
+
+const accounts = pgTable("accounts", {
+  accountId: integer("account_id").primaryKey(),
+  displayName: text("display_name"),
+});
+
+describe("parseRawStatement", () => {
+  it("identifies the operation and target table", () => {
+    expect(parseRawStatement("INSERT INTO users (id) VALUES (1)")).toMatchObject({
+      kind: "dml",
+      operation: "insert",
+      tableName: "users",
+    });
+    expect(parseRawStatement('update only public."Users" set name = 1')).toMatchObject({
+      kind: "dml",
+      operation: "update",
+      tableName: "Users",
+    });
+    expect(parseRawStatement("-- cleanup\nDELETE FROM Users WHERE id = 1")).toMatchObject({
+      kind: "dml",
+      operation: "delete",
+      tableName: "users",
+    });
+    expect(parseRawStatement('DELETE FROM Billing."Accounts" WHERE id = 1')).toMatchObject({
+      kind: "dml",
+      operation: "delete",
+      tableName: "billing.Accounts",
+    });
+  });
+
+  it("ignores statements that are not DML", () => {
+    expect(parseRawStatement("SELECT * FROM users")).toEqual({ kind: "other" });
+    expect(parseRawStatement(sql`TRUNCATE users`)).toEqual({ kind: "other" });
+  });
+
+  it("reports DML that cannot be rewritten safely", () => {
+    expect(parseRawStatement("WITH x AS (SELECT 1) DELETE FROM users").kind).toBe("unparsed");
+    expect(parseRawStatement("DELETE FROM users; DELETE FROM posts").kind).toBe("unparsed");
+    expect(parseRawStatement("DELETE FROM users RETURNING id").kind).toBe("unparsed");
+    expect(parseRawStatement(sql`DELETE FROM users;`).kind).toBe("unparsed");
+  });
+});
+
+describe("Raw SQL auditing", () => {
+  it("appends RETURNING * and logs returned rows as inserts", async () => {
+    const { db, queries, customWriter } = setup([{ id: 1, name: "Alice" }]);
+
+    await db.execute("INSERT INTO users (id, name) VALUES (1, 'Alice');");
+
+    expect(queries[0]).toBe("INSERT INTO users (id, name) VALUES (1, 'Alice') returning *");
+    expect(customWriter.mock.calls[0]?.[0]).toEqual([
+      { action: "INSERT", tableName: "users", recordId: "1", values: { id: 1, name: "Alice" } },
+    ]);
+  });
+
+  it("keeps sql`...` parameters when rewriting", async () => {
+    const { db, queries, customWriter } = setup([{ id: 7, name: "Bob" }]);
+
+    await db.execute(sql`UPDATE users SET name = ${"Bob"} WHERE id = ${7}`);
+
+    expect(queries[0]).toBe("UPDATE users SET name = $1 WHERE id = $2 returning *");
+    expect(customWriter.mock.calls[0]?.[0]).toMatchObject([{ action: "UPDATE", recordId: "7" }]);
+  });
+
+  it("logs deleted rows", async () => {
+    const { db, customWriter } = setup([{ id: 3 }, { id: 4 }]);
+
+    await db.execute(sql`DELETE FROM users WHERE id > 2`);
+
+    expect(customWriter.mock.calls[0]?.[0]).toMatchObject([
+      { action: "DELETE", recordId: "3" },
+      { action: "DELETE", recordId: "4" },
+    ]);
+  });
+
+  it("maps rows to property keys when the table's columns are known", async () => {
+    const { db, logs } = createMockAuditDb(
+      [[{ account_id: 5, display_name: "Ops" }] as unknown as unknown[][]],
+      { tables: [accounts], rawSql: {} },
+    );
+
+    await db.execute(sql`INSERT INTO accounts VALUES (5, 'Ops')`);
+
+    expect(logs()).toEqual([
+      {
+        action: "INSERT",
+        tableName: "accounts",
+        recordId: "5",
+        values: { accountId: 5, displayName: "Ops" },
+      },
+    ]);
+  });
+
+  it("does not reject a statement that ran when auditing it fails", async () => {
+    const client = vi.fn(async () => ({ rows: [{ name: "no id" }] }));
+    const logError = vi.fn();
+    const options = { tables: { users: { primaryKey: "id" } }, rawSql: {}, logError };
+    const db = new AuditLogger(drizzle(client) as any, options).createAuditedDb();
+
+    await expect(db.execute("INSERT INTO users (name) VALUES ('x')")).resolves.toBeDefined();
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Failed to audit statement:",
+      expect.objectContaining({ message: expect.stringContaining("primaryKey") }),
+    );
+
+    const strict = new AuditLogger(drizzle(client) as any, { ...options, strictMode: true });
+    await expect(
+      strict.createAuditedDb().execute("INSERT INTO users (name) VALUES ('x')"),
+    ).rejects.toThrow("record missing configured primaryKey");
+  });
+
+  it("leaves statements on unaudited tables untouched", async () => {
+    const { db, queries, customWriter } = setup();
+
+    await db.execute(sql`DELETE FROM sessions`);
+
+    expect(queries[0]).toBe("DELETE FROM sessions");
+    expect(customWriter).not.toHaveBeenCalled();
+  });
+
+  it("reports unparsed statements through logError by default", async () => {
+    const { db, queries, customWriter, logError } = setup();
+
+    await db.execute("DELETE FROM users RETURNING id");
+
+    expect(queries[0]).toBe("DELETE FROM users RETURNING id");
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Raw SQL statement not audited:",
+      expect.objectContaining({ message: expect.stringContaining("RETURNING") }),
+    );
+    expect(customWriter).not.toHaveBeenCalled();
+  });
+
+  it('rejects unparsed statements before execution with "throw"', async () => {
+    const { db, queries } = setup([], "throw");
+
+    await expect(db.execute("DELETE FROM users; DELETE FROM posts")).rejects.toThrow(
+      "multiple statements",
+    );
+    expect(queries).toHaveLength(0);
+  });
+
+  it('stays silent with "ignore"', async () => {
+    const { db, queries, logError } = setup([], "ignore");
+
+    await db.execute(sql`WITH x AS (SELECT 1) DELETE FROM users`);
+
+    expect(queries).toHaveLength(1);
+    expect(logError).not.toHaveBeenCalled();
+  });
+});
@@ -12,12 +12,17 @@ describe("Raw SQL execution", () => {
     db = { execute: executeMock };
     auditLogger = {
       shouldAudit: vi.fn().mockReturnValue(true),
+      shouldAuditAction: vi.fn().mockReturnValue(true),
+      shouldAuditOperation: vi.fn().mockResolvedValue(true),
       shouldCaptureBeforeState: vi.fn().mockReturnValue(false),
+      shouldLockBeforeState: vi.fn().mockReturnValue(false),
+      getNoWhereClausePolicy: vi.fn().mockReturnValue("warn"),
       logInsert: vi.fn(),
       logUpdate: vi.fn(),
       logDelete: vi.fn(),
       getContext: vi.fn(),
       withContext: vi.fn(),
+      getRawSqlConfig: vi.fn().mockReturnValue(null),
     };
   });
 
@@ -49,7 +54,11 @@ describe("Raw SQL execution", () => {
 describe("sql`...` inside query builders", () => {
   const makeAuditLogger = () => ({
     shouldAudit: vi.fn().mockReturnValue(true),
+    shouldAuditAction: vi.fn().mockReturnValue(true),
+    shouldAuditOperation: vi.fn().mockResolvedValue(true),
     shouldCaptureBeforeState: vi.fn().mockReturnValue(false),
+    shouldLockBeforeState: vi.fn().mockReturnValue(false),
+    getNoWhereClausePolicy: vi.fn().mockReturnValue("warn"),
     logInsert: vi.fn(),
     logUpdate: vi.fn(),
     logDelete: vi.fn(),
@@ -0,0 +1,148 @@
+import { eq } from "drizzle-orm";
+import { integer, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const patients = pgTable("patients", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  diagnosis: text("diagnosis"),
+});
+
+const visits = pgTable("visits", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id"),
+});
+
+const schema = { patients, visits };
+
+const setup = (responses: unknown[][][], options: { readSummaryThreshold?: number } = {}) =>
+  createMockAuditDb(
+    responses,
+    {
+      tables: { patients: { primaryKey: "id", auditReads: true }, visits: { primaryKey: "id" } },
+      ...options,
+    },
+    { schema },
+  );
+
+describe("READ auditing", () => {
+  it("logs one READ entry per returned primary key with projected columns", async () => {
+    const { db, logs } = setup([
+      [
+        [1, "Ann", "flu"],
+        [2, "Bob", "cold"],
+      ],
+    ]);
+
+    const rows = await db.select().from(patients).where(eq(patients.name, "Ann"));
+
+    expect(rows).toHaveLength(2);
+    expect(logs()).toEqual([
+      {
+        action: "READ",
+        tableName: "patients",
+        recordId: "1",
+        metadata: { columns: ["id", "name", "diagnosis"] },
+      },
+      {
+        action: "READ",
+        tableName: "patients",
+        recordId: "2",
+        metadata: { columns: ["id", "name", "diagnosis"] },
+      },
+    ]);
+  });
+
+  it("records only the selected columns of a partial select", async () => {
+    const { db, logs } = setup([[[1, "Ann"]]]);
+
+    await db.select({ id: patients.id, name: patients.name }).from(patients);
+
+    expect(logs()).toMatchObject([{ recordId: "1", metadata: { columns: ["id", "name"] } }]);
+  });
+
+  it("logs a summary entry above the row threshold", async () => {
+    const { db, logs } = setup(
+      [
+        [
+          [1, "Ann", null],
+          [2, "Bob", null],
+          [3, "Cy", null],
+        ],
+      ],
+      { readSummaryThreshold: 2 },
+    );
+
+    await db.select().from(patients);
+
+    expect(logs()).toEqual([
+      {
+        action: "READ",
+        tableName: "patients",
+        recordId: "*",
+        metadata: { columns: ["id", "name", "diagnosis"], rowCount: 3, summary: true },
+      },
+    ]);
+  });
+
+  it("logs a summary entry when the projection leaves out the primary key", async () => {
+    const { db, logs } = setup([[["flu"]]]);
+
+    await db.select({ diagnosis: patients.diagnosis }).from(patients);
+
+    expect(logs()).toMatchObject([
+      { recordId: "*", metadata: { columns: ["diagnosis"], rowCount: 1, summary: true } },
+    ]);
+  });
+
+  it("reads the audited table's rows from joined results", async () => {
+    const { db, logs } = setup([[[1, "Ann", "flu", 10, 1]]]);
+
+    await db.select().from(patients).leftJoin(visits, eq(visits.patientId, patients.id));
+
+    expect(logs()).toMatchObject([
+      { recordId: "1", metadata: { columns: ["id", "name", "diagnosis"] } },
+    ]);
+  });
+
+  it("does not audit tables without auditReads", async () => {
+    const { db, logs } = setup([[[10, 1]]]);
+
+    await db.select().from(visits);
+
+    expect(logs()).toEqual([]);
+  });
+
+  it("audits relational findMany and findFirst", async () => {
+    const { db, logs } = setup([[[1, "Ann"]], [[2, "Bob"]]]);
+
+    await db.query.patients.findMany({ columns: { id: true, name: true } });
+    const patient = await db.query.patients.findFirst({ columns: { diagnosis: false } });
+
+    expect(patient).toEqual({ id: 2, name: "Bob" });
+    expect(logs()).toEqual([
+      {
+        action: "READ",
+        tableName: "patients",
+        recordId: "1",
+        metadata: { columns: ["id", "name"] },
+      },
+      {
+        action: "READ",
+        tableName: "patients",
+        recordId: "2",
+        metadata: { columns: ["id", "name"] },
+      },
+    ]);
+  });
+
+  it("does not log reads that return no rows", async () => {
+    const { db, logs } = setup([[]]);
+
+    const patient = await db.query.patients.findFirst();
+
+    expect(patient).toBeUndefined();
+    expect(logs()).toEqual([]);
+  });
+});
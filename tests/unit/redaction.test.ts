@@ -0,0 +1,114 @@
+import { createHmac } from "node:crypto";
+import type { AuditConfig } from "../../src/types/config.js";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { maskValue } from "../../src/utils/redaction.js";
+
+const hmac = (value: string) => createHmac("sha256", "test-key").update(value).digest("hex");
+
+const setup = (config: Partial<AuditConfig> = {}) => {
+  const customWriter = vi.fn();
+  const logger = new AuditLogger({} as any, {
+    tables: { users: { primaryKey: "id" } },
+    customWriter,
+    redactionKey: "test-key",
+    ...config,
+  });
+  const logs = () => customWriter.mock.calls.flatMap((call) => call[0]);
+  return { logger, logs };
+};
+
+describe("Redaction", () => {
+  it("applies each strategy to the logged values", async () => {
+    const { logger, logs } = setup({
+      redact: {
+        email: "hash",
+        phone: "mask",
+        ssn: "drop",
+        note: "marker",
+        nickname: { marker: "<hidden>" },
+        "settings.*.token": "marker",
+        name: (value) => String(value).toUpperCase(),
+      },
+    });
+
+    await logger.logInsert("users", {
+      id: 1,
+      email: "alice@example.com",
+      phone: "+4712345678",
+      ssn: "010190-12345",
+      note: "vip",
+      nickname: "Al",
+      name: "alice",
+      settings: { slack: { token: "xoxb", channel: "#ops" }, theme: "dark" },
+    });
+
+    expect(logs()[0]?.values).toEqual({
+      id: 1,
+      email: hmac("alice@example.com"),
+      phone: "+********78",
+      note: "[REDACTED]",
+      nickname: "<hidden>",
+      name: "ALICE",
+      settings: { slack: { token: "[REDACTED]", channel: "#ops" }, theme: "dark" },
+    });
+  });
+
+  it("detects changes on the original values and records redacted fields", async () => {
+    const { logger, logs } = setup({ redact: { email: "marker", phone: "hash" } });
+
+    await logger.logUpdate(
+      "users",
+      { id: 1, email: "old@example.com", phone: "111", name: "Ann" },
+      { id: 1, email: "new@example.com", phone: "222", name: "Ann" },
+    );
+
+    expect(logs()).toEqual([
+      {
+        action: "UPDATE",
+        tableName: "users",
+        recordId: "1",
+        values: { phone: hmac("222") },
+        metadata: { redactedFields: ["email", "phone"] },
+      },
+    ]);
+  });
+
+  it("redacts both sides in diff mode", async () => {
+    const { logger, logs } = setup({ redact: { email: "mask" }, updateValuesMode: "diff" });
+
+    await logger.logUpdate(
+      "users",
+      { id: 1, email: "alice@example.com" },
+      { id: 1, email: "bob@example.com" },
+    );
+
+    expect(logs()[0]).toMatchObject({
+      values: { email: { old: "a***@example.com", new: "b***@example.com" } },
+      metadata: { redactedFields: ["email"] },
+    });
+  });
+
+  it("skips unchanged rows even when redacted fields are present", async () => {
+    const { logger, logs } = setup({ redact: { email: "hash" } });
+
+    await logger.logUpdate("users", { id: 1, email: "a@x.com" }, { id: 1, email: "a@x.com" });
+
+    expect(logs()).toEqual([]);
+  });
+
+  it("masks emails and other values", () => {
+    expect(maskValue("alice@example.com")).toBe("a***@example.com");
+    expect(maskValue("+4712345678")).toBe("+********78");
+    expect(maskValue("1234")).toBe("****");
+  });
+
+  it("validates the redaction config", () => {
+    expect(() => setup({ redact: { email: "hash" }, redactionKey: undefined })).toThrow(
+      "redactionKey is required",
+    );
+    expect(() => setup({ redact: { email: "scramble" as any } })).toThrow(
+      'redact["email"] has an unknown redaction strategy',
+    );
+  });
+});
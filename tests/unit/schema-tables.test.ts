@@ -0,0 +1,53 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { eq } from "drizzle-orm";
+import { pgSchema, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const billingAccounts = pgSchema("billing").table("accounts", {
+  id: serial("id").primaryKey(),
+  plan: text("plan"),
+});
+const crmAccounts = pgSchema("crm").table("accounts", {
+  id: serial("id").primaryKey(),
+  owner: text("owner"),
+});
+const users = pgTable("users", { id: serial("id").primaryKey(), name: text("name") });
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig>) =>
+  createMockAuditDb(responses, config);
+
+describe("Schema-qualified tables", () => {
+  it("keeps same-named tables in different schemas apart", async () => {
+    const { db, logs, client } = setup([[[1, "pro"]], []], {
+      tables: { "billing.accounts": { primaryKey: "id" } },
+    });
+
+    await db.insert(billingAccounts).values({ plan: "pro" });
+    await db.insert(crmAccounts).values({ owner: "ann" });
+
+    expect(client).toHaveBeenCalledTimes(2);
+    expect(logs()).toMatchObject([{ action: "INSERT", tableName: "billing.accounts" }]);
+  });
+
+  it("accepts unqualified and public-qualified names for public tables", async () => {
+    const { logger, db, logs } = setup([[[1, "Old"]], [[1, "New"]]], {
+      tables: { "public.users": { primaryKey: "id" } },
+      fields: { "public.users": ["name"] },
+    });
+
+    await db.update(users).set({ name: "New" }).where(eq(users.id, 1));
+
+    expect(logs()).toMatchObject([{ tableName: "users", values: { name: "New" } }]);
+    expect(logger.shouldAudit("users")).toBe(true);
+  });
+
+  it("keys Drizzle table objects and discovery by qualified name", () => {
+    const { logger } = setup([], {
+      tables: [billingAccounts],
+      discover: { schema: { crmAccounts, users }, exclude: ["crm.*"], logSummary: false },
+    });
+
+    expect(Object.keys((logger as any).config.tables)).toEqual(["billing.accounts", "users"]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { eq } from "drizzle-orm";
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  status: text("status"),
+});
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig> = {}) =>
+  createMockAuditDb(responses, { tables: { users: { primaryKey: "id" } }, ...config });
+
+describe("shouldAuditOperation", () => {
+  it("skips operations before the before state is captured", async () => {
+    const shouldAuditOperation = vi.fn(({ context }) => context?.userId !== "SYSTEM");
+    const { logger, db, queries, logs } = setup([[[1, "New", "active"]]], {
+      shouldAuditOperation,
+    });
+
+    await logger.withContext({ userId: "SYSTEM" }, async () => {
+      await db.update(users).set({ name: "New" }).where(eq(users.id, 1));
+    });
+
+    expect(shouldAuditOperation).toHaveBeenCalledWith({
+      table: "users",
+      action: "UPDATE",
+      context: expect.objectContaining({ userId: "SYSTEM" }),
+      records: [],
+    });
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toMatch(/^update "users"/);
+    expect(logs()).toEqual([]);
+  });
+
+  it("checks every log entry with the row it describes", async () => {
+    const shouldAuditOperation = vi.fn(
+      ({ records }) => records.length === 0 || records[0].status === "active",
+    );
+    const { db, logs } = setup(
+      [
+        [
+          [1, "Ann", "active"],
+          [2, "Bob", "archived"],
+        ],
+      ],
+      { shouldAuditOperation },
+    );
+
+    await db.insert(users).values([{ name: "Ann" }, { name: "Bob" }]);
+
+    expect(shouldAuditOperation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "INSERT",
+        records: [{ id: 2, name: "Bob", status: "archived" }],
+      }),
+    );
+    expect(logs()).toMatchObject([{ action: "INSERT", recordId: "1" }]);
+  });
+
+  it("counts skipped operations in the writer stats", async () => {
+    let calls = 0;
+    const { logger, db } = setup(
+      [[[1, "Ann", "active"]], [[2, "Bob", "active"]], [[3, "Cy", "active"]]],
+      {
+        // Sample every other operation
+        shouldAuditOperation: ({ records }) => records.length > 0 || calls++ % 2 === 0,
+        batch: { batchSize: 10, flushInterval: 60_000, waitForWrite: true },
+      },
+    );
+
+    await db.insert(users).values({ name: "Ann" });
+    await db.insert(users).values({ name: "Bob" });
+    await db.insert(users).values({ name: "Cy" });
+
+    expect(logger.getStats()?.skippedCount).toBe(1);
+    await logger.shutdown();
+  });
+
+  it("counts skipped operations without batching", async () => {
+    const { logger, db } = setup([[[1, "Ann", "active"]], [[2, "Bob", "archived"]]], {
+      shouldAuditOperation: ({ records }) => records[0]?.status !== "archived",
+    });
+
+    await db.insert(users).values({ name: "Ann" });
+    await db.insert(users).values({ name: "Bob" });
+
+    expect(logger.getStats()).toEqual({
+      queueSize: 0,
+      isWriting: false,
+      isShuttingDown: false,
+      skippedCount: 1,
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { integer, pgTable, primaryKey, serial, text, uuid } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+});
+
+const memberships = pgTable(
+  "memberships",
+  {
+    userId: integer("user_id").notNull(),
+    groupId: integer("group_id").notNull(),
+    role: text("role"),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.groupId] })],
+);
+
+const accounts = pgTable("accounts", {
+  publicId: uuid("public_id").primaryKey(),
+  email: text("email"),
+});
+
+const events = pgTable("events", {
+  kind: text("kind"),
+});
+
+const createLogger = (tables: any) =>
+  new AuditLogger({} as any, { tables, customWriter: vi.fn() }) as any;
+
+describe("Drizzle table objects in tables", () => {
+  it("infers single and composite primary keys as property names", () => {
+    const logger = createLogger([users, memberships, accounts]);
+
+    expect(logger.config.tables.users.primaryKey).toBe("id");
+    expect(logger.config.tables.memberships.primaryKey).toEqual(["userId", "groupId"]);
+    expect(logger.config.tables.accounts.primaryKey).toBe("publicId");
+  });
+
+  it("keys table objects by SQL name and applies explicit overrides", () => {
+    const logger = createLogger([
+      users,
+      { table: accounts, primaryKey: "email", auditReads: true },
+    ]);
+
+    expect(Object.keys(logger.config.tables)).toEqual(["users", "accounts"]);
+    expect(logger.config.tables.accounts).toMatchObject({ primaryKey: "email", auditReads: true });
+  });
+
+  it("treats map entries as settings keyed by table name", () => {
+    expect(() => createLogger({ usersTable: users })).toThrow(
+      "tables.usersTable.primaryKey must be string or string[]",
+    );
+  });
+
+  it("fails at startup when no primary key can be detected", () => {
+    expect(() => createLogger([events])).toThrow(
+      "tables.events has no primary key; set primaryKey explicitly",
+    );
+    expect(() => createLogger([{ table: events, primaryKey: "kind" }])).not.toThrow();
+    expect(() => createLogger([users, { table: users }])).toThrow(
+      "tables.users is configured more than once",
+    );
+  });
+
+  it("audits writes using the inferred key", async () => {
+    const { db, logs } = createMockAuditDb([[[1, 2, "admin"]]], { tables: [memberships] });
+
+    await db.insert(memberships).values({ userId: 1, groupId: 2 });
+
+    expect(logs()).toMatchObject([
+      { action: "INSERT", tableName: "memberships", recordId: '{"userId":1,"groupId":2}' },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { eq } from "drizzle-orm";
+import { jsonb, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  password: text("password"),
+});
+
+const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  token: text("token"),
+  data: jsonb("data"),
+});
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig> = {}) =>
+  createMockAuditDb(responses, {
+    tables: { users: { primaryKey: "id" }, sessions: { primaryKey: "id" } },
+    ...config,
+  });
+
+describe("Per-table audit policy", () => {
+  it("only audits the configured actions", async () => {
+    const { db, queries, logs } = setup([[[1, "abc", null]], [], [[1, "abc", null]]], {
+      tables: {
+        users: { primaryKey: "id" },
+        sessions: { primaryKey: "id", actions: ["DELETE"] },
+      },
+    });
+
+    await db.insert(sessions).values({ token: "abc" });
+    await db.update(sessions).set({ token: "def" }).where(eq(sessions.id, 1));
+    await db.delete(sessions).where(eq(sessions.id, 1));
+
+    // Skipped actions run without before state capture or injected RETURNING
+    expect(queries[0]).not.toContain("returning");
+    expect(queries[1]).not.toMatch(/^select/);
+    expect(logs()).toEqual([
+      {
+        action: "DELETE",
+        tableName: "sessions",
+        recordId: "1",
+        values: { id: 1, data: null },
+      },
+    ]);
+  });
+
+  it("replaces the global excludeFields for a table", async () => {
+    const { db, logs } = setup(
+      [[[1, "Ann", "secret"]], [[1, "abc", { provider: "github", secret: "x" }]]],
+      {
+        excludeFields: ["password"],
+        tables: {
+          users: { primaryKey: "id" },
+          sessions: { primaryKey: "id", excludeFields: ["token", "data.secret"] },
+        },
+      },
+    );
+
+    await db.insert(users).values({ name: "Ann", password: "secret" });
+    await db.insert(sessions).values({ token: "abc" });
+
+    expect(logs().map((log) => log.values)).toEqual([
+      { id: 1, name: "Ann" },
+      { id: 1, data: { provider: "github" } },
+    ]);
+  });
+
+  it("overrides updateValuesMode per table", async () => {
+    const { db, queries, logs } = setup(
+      [[[1, "New", "pw"]], [[1, "Old", "pw"]], [[1, "New", "pw"]]],
+      {
+        updateValuesMode: "changed",
+        excludeFields: [],
+        tables: {
+          users: { primaryKey: "id", updateValuesMode: "full" },
+          sessions: { primaryKey: "id" },
+        },
+      },
+    );
+
+    await db.update(users).set({ name: "New" }).where(eq(users.id, 1));
+    await db.update(sessions).set({ token: "New" }).where(eq(sessions.id, 1));
+
+    // "full" skips the before SELECT; the global "changed" mode still runs it
+    expect(queries[0]).toMatch(/^update "users"/);
+    expect(queries[1]).toMatch(/^select .* from "sessions"/);
+    expect(logs().map((log) => log.values)).toEqual([
+      { id: 1, name: "New", password: "pw" },
+      { token: "New" },
+    ]);
+  });
+
+  it("omits values for tables with storeValues disabled", async () => {
+    const { db, logs } = setup([[[1, "abc", null]]], {
+      tables: {
+        users: { primaryKey: "id" },
+        sessions: { primaryKey: "id", storeValues: false },
+      },
+    });
+
+    await db.insert(sessions).values({ token: "abc" });
+
+    expect(logs()).toEqual([
+      { action: "INSERT", tableName: "sessions", recordId: "1", values: undefined },
+    ]);
+  });
+
+  it("applies strictMode per table", async () => {
+    const logError = vi.fn();
+    const customWriter = vi.fn().mockRejectedValue(new Error("sink down"));
+    const { db } = setup([[[1, "Ann", null]], [[1, "abc", null]]], {
+      logError,
+      customWriter,
+      tables: {
+        users: { primaryKey: "id", strictMode: true },
+        sessions: { primaryKey: "id" },
+      },
+    });
+
+    await expect(db.insert(users).values({ name: "Ann" })).rejects.toThrow("sink down");
+    await expect(db.insert(sessions).values({ token: "abc" })).resolves.toBeDefined();
+    expect(logError).toHaveBeenCalledTimes(1);
+  });
+
+  it("validates table overrides", () => {
+    expect(
+      () =>
+        new AuditLogger({} as any, {
+          tables: { sessions: { primaryKey: "id", actions: ["READ" as any] } },
+        }),
+    ).toThrow("tables.sessions.actions must only contain INSERT, UPDATE, DELETE");
+    expect(
+      () =>
+        new AuditLogger({} as any, {
+          tables: { sessions: { primaryKey: "id", excludeFields: ["data..token"] } },
+        }),
+    ).toThrow('Invalid field path: "data..token"');
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+
+const makeDb = () => {
+  const rootExecute = vi.fn().mockResolvedValue({ rows: [] });
+  const txExecute = vi.fn().mockResolvedValue({ rows: [] });
+  const tx: Record<string, unknown> = { execute: txExecute };
+  // Nested transactions (savepoints) reuse the same handle shape
+  tx.transaction = vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(tx));
+  const db = {
+    execute: rootExecute,
+    transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(tx)),
+  };
+  return { db, tx, rootExecute, txExecute };
+};
+
+describe("transactionMode", () => {
+  it("writes through the root db by default", async () => {
+    const { db, rootExecute, txExecute } = makeDb();
+    const logger = new AuditLogger(db as any, { tables: { users: { primaryKey: "id" } } });
+    const auditedDb = logger.createAuditedDb();
+
+    await auditedDb.transaction(async () => {
+      await logger.logInsert("users", { id: 1 });
+    });
+
+    expect(rootExecute).toHaveBeenCalledTimes(1);
+    expect(txExecute).not.toHaveBeenCalled();
+  });
+
+  it('writes through the transaction handle in "atomic" mode', async () => {
+    const { db, rootExecute, txExecute } = makeDb();
+    const logger = new AuditLogger(db as any, {
+      tables: { users: { primaryKey: "id" } },
+      transactionMode: "atomic",
+    });
+    const auditedDb = logger.createAuditedDb();
+
+    await auditedDb.transaction(async () => {
+      await logger.logInsert("users", { id: 1 });
+    });
+    await logger.logInsert("users", { id: 2 });
+
+    expect(txExecute).toHaveBeenCalledTimes(1);
+    expect(rootExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it("bypasses batching inside transactions in atomic mode", async () => {
+    const { db, rootExecute, txExecute } = makeDb();
+    const logger = new AuditLogger(db as any, {
+      tables: { users: { primaryKey: "id" } },
+      transactionMode: "atomic",
+      batch: { batchSize: 100, flushInterval: 60000 },
+    });
+    const auditedDb = logger.createAuditedDb();
+
+    await auditedDb.transaction(async () => {
+      await logger.logInsert("users", { id: 1 });
+    });
+
+    expect(txExecute).toHaveBeenCalledTimes(1);
+    expect(logger.getStats()?.queueSize).toBe(0);
+    expect(rootExecute).not.toHaveBeenCalled();
+
+    await logger.shutdown();
+  });
+
+  it("propagates audit write failures in atomic mode even without strictMode", async () => {
+    const { db, txExecute } = makeDb();
+    txExecute.mockRejectedValue(new Error("audit insert failed"));
+    const logger = new AuditLogger(db as any, {
+      tables: { users: { primaryKey: "id" } },
+      transactionMode: "atomic",
+      logError: () => {},
+    });
+    const auditedDb = logger.createAuditedDb();
+
+    await expect(
+      auditedDb.transaction(async () => {
+        await logger.logInsert("users", { id: 1 });
+      }),
+    ).rejects.toThrow("audit insert failed");
+  });
+
+  it("defers customWriter sinks until commit in atomic mode", async () => {
+    const { db } = makeDb();
+    const customWriter = vi.fn();
+    const logger = new AuditLogger(db as any, {
+      tables: { users: { primaryKey: "id" } },
+      transactionMode: "atomic",
+      customWriter,
+    });
+    const auditedDb = logger.createAuditedDb();
+
+    await auditedDb.transaction(async () => {
+      await logger.logInsert("users", { id: 1 });
+      expect(customWriter).not.toHaveBeenCalled();
+    });
+
+    expect(customWriter).toHaveBeenCalledTimes(1);
+  });
+
+  describe('"deferred" mode', () => {
+    it("writes buffered logs only after the transaction commits", async () => {
+      const { db, rootExecute, txExecute } = makeDb();
+      const logger = new AuditLogger(db as any, {
+        tables: { users: { primaryKey: "id" } },
+        transactionMode: "deferred",
+      });
+      const auditedDb = logger.createAuditedDb();
+
+      await auditedDb.transaction(async () => {
+        await logger.logInsert("users", { id: 1 });
+        await logger.logInsert("users", { id: 2 });
+        expect(rootExecute).not.toHaveBeenCalled();
+      });
+
+      expect(rootExecute).toHaveBeenCalledTimes(1);
+      expect(txExecute).not.toHaveBeenCalled();
+    });
+
+    it("drops buffered logs when the transaction throws", async () => {
+      const customWriter = vi.fn();
+      const { db } = makeDb();
+      const logger = new AuditLogger(db as any, {
+        tables: { users: { primaryKey: "id" } },
+        transactionMode: "deferred",
+        customWriter,
+      });
+      const auditedDb = logger.createAuditedDb();
+
+      await expect(
+        auditedDb.transaction(async () => {
+          await logger.logInsert("users", { id: 1 });
+          throw new Error("rollback");
+        }),
+      ).rejects.toThrow("rollback");
+
+      await auditedDb.transaction(async () => {
+        await logger.logInsert("users", { id: 2 });
+      });
+
+      expect(customWriter).toHaveBeenCalledTimes(1);
+      expect(customWriter.mock.calls[0]?.[0]).toMatchObject([{ recordId: "2" }]);
+    });
+
+    it("keeps the transaction context on buffered logs", async () => {
+      const customWriter = vi.fn();
+      const { db } = makeDb();
+      const logger = new AuditLogger(db as any, {
+        tables: { users: { primaryKey: "id" } },
+        transactionMode: "deferred",
+        customWriter,
+      });
+      const auditedDb = logger.createAuditedDb();
+
+      await logger.withContext({ userId: "u1" }, () =>
+        auditedDb.transaction(async () => {
+          await logger.logInsert("users", { id: 1 });
+        }),
+      );
+
+      const context = customWriter.mock.calls[0]?.[1];
+      expect(context).toMatchObject({ userId: "u1" });
+      expect(context.transactionId).toEqual(expect.any(String));
+    });
+
+    it("queues buffered logs to the batch writer after commit", async () => {
+      const { db } = makeDb();
+      const logger = new AuditLogger(db as any, {
+        tables: { users: { primaryKey: "id" } },
+        transactionMode: "deferred",
+        batch: { batchSize: 100, flushInterval: 60000 },
+      });
+      const auditedDb = logger.createAuditedDb();
+
+      await auditedDb.transaction(async () => {
+        await logger.logInsert("users", { id: 1 });
+        expect(logger.getStats()?.queueSize).toBe(0);
+      });
+
+      expect(logger.getStats()?.queueSize).toBe(1);
+
+      await logger.shutdown();
+    });
+  });
+
+  describe("nested transactions", () => {
+    it("keeps the root transaction ID and records savepoint details", async () => {
+      const customWriter = vi.fn();
+      const { db } = makeDb();
+      const logger = new AuditLogger(db as any, {
+        tables: { users: { primaryKey: "id" } },
+        customWriter,
+      });
+      const auditedDb = logger.createAuditedDb();
+
+      await auditedDb.transaction(async (tx) => {
+        await logger.logInsert("users", { id: 1 });
+        await tx.transaction(async (nested) => {
+          await logger.logInsert("users", { id: 2 });
+          await nested.transaction(async () => {
+            await logger.logInsert("users", { id: 3 });
+          });
+        });
+      });
+
+      const [root, child, grandchild] = customWriter.mock.calls.map((call) => call[1]);
+      expect(root.transactionDepth).toBe(0);
+      expect(root.savepointId).toBeUndefined();
+      expect(child.transactionId).toBe(root.transactionId);
+      expect(child).toMatchObject({ transactionDepth: 1, parentSavepointId: undefined });
+      expect(child.savepointId).toEqual(expect.any(String));
+      expect(grandchild).toMatchObject({
+        transactionId: root.transactionId,
+        parentSavepointId: child.savepointId,
+        transactionDepth: 2,
+      });
+    });
+
+    it("discards logs of a rolled-back savepoint in deferred mode", async () => {
+      const customWriter = vi.fn();
+      const { db } = makeDb();
+      const logger = new AuditLogger(db as any, {
+        tables: { users: { primaryKey: "id" } },
+        transactionMode: "deferred",
+        customWriter,
+      });
+      const auditedDb = logger.createAuditedDb();
+
+      await auditedDb.transaction(async (tx) => {
+        await logger.logInsert("users", { id: 1 });
+        await tx
+          .transaction(async () => {
+            await logger.logInsert("users", { id: 2 });
+            throw new Error("rollback savepoint");
+          })
+          .catch(() => {});
+        await tx.transaction(async () => {
+          await logger.logInsert("users", { id: 3 });
+        });
+      });
+
+      const recordIds = customWriter.mock.calls.flatMap((call) =>
+        call[0].map((log: { recordId: string }) => log.recordId),
+      );
+      expect(recordIds).toEqual(["1", "3"]);
+    });
+
+    it("stores savepoint details in metadata with the built-in writer", async () => {
+      const { db, rootExecute } = makeDb();
+      const logger = new AuditLogger(db as any, { tables: { users: { primaryKey: "id" } } });
+      const auditedDb = logger.createAuditedDb();
+
+      await auditedDb.transaction(async (tx) => {
+        await tx.transaction(async () => {
+          await logger.logInsert("users", { id: 1 });
+        });
+      });
+
+      const params = JSON.stringify(rootExecute.mock.calls[0]?.[0]);
+      expect(params).toContain("savepointId");
+      expect(params).toContain("transactionDepth");
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from "vitest";
+import { getTransactionTree } from "../../src/utils/migration.js";
+
+const row = (id: number, metadata: Record<string, unknown> | null) => ({
+  id,
+  user_id: null,
+  ip_address: null,
+  user_agent: null,
+  action: "INSERT",
+  table_name: "users",
+  record_id: String(id),
+  values: null,
+  metadata,
+  transaction_id: "tx-1",
+  created_at: "2026-01-01T00:00:00.000Z",
+  deleted_at: null,
+});
+
+describe("getTransactionTree", () => {
+  it("rebuilds the savepoint hierarchy from stored logs", async () => {
+    const db = {
+      execute: vi.fn().mockResolvedValue({
+        rows: [
+          row(1, null),
+          row(2, { savepointId: "sp-1", transactionDepth: 1 }),
+          row(3, { savepointId: "sp-2", parentSavepointId: "sp-1", transactionDepth: 2 }),
+          row(4, { savepointId: "sp-3", transactionDepth: 1 }),
+        ],
+      }),
+    };
+
+    const tree = await getTransactionTree(db as any, "tx-1");
+
+    expect(tree.logs.map((log) => log.id)).toEqual(["1"]);
+    expect(tree.children.map((node) => node.savepointId)).toEqual(["sp-1", "sp-3"]);
+    expect(tree.children[0]?.children[0]).toMatchObject({
+      savepointId: "sp-2",
+      parentSavepointId: "sp-1",
+      depth: 2,
+    });
+    expect(tree.children[0]?.children[0]?.logs[0]?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("creates empty nodes for savepoints that logged nothing", async () => {
+    const db = {
+      execute: vi.fn().mockResolvedValue({
+        rows: [row(1, { savepointId: "sp-2", parentSavepointId: "sp-1", transactionDepth: 2 })],
+      }),
+    };
+
+    const tree = await getTransactionTree(db as any, "tx-1");
+
+    expect(tree.children).toHaveLength(1);
+    expect(tree.children[0]).toMatchObject({ savepointId: "sp-1", depth: 1, logs: [] });
+    expect(tree.children[0]?.children[0]?.logs).toHaveLength(1);
+  });
+
+  it("rejects unsafe table names", async () => {
+    const db = { execute: vi.fn() };
+
+    await expect(getTransactionTree(db as any, "tx-1", { tableName: "bad;name" })).rejects.toThrow(
+      "Invalid identifier",
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { AuditLog } from "../../src/types/audit.js";
+import type { AuditConfig } from "../../src/types/config.js";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { createStaticKeyProvider } from "../../src/utils/encryption.js";
+import { isTruncatedValue, truncateAuditLog, truncateValue } from "../../src/utils/truncation.js";
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+const setup = (config: Partial<AuditConfig>) => {
+  const customWriter = vi.fn();
+  const logger = new AuditLogger({} as any, {
+    tables: { documents: { primaryKey: "id" } },
+    customWriter,
+    ...config,
+  });
+  const logs = () => customWriter.mock.calls.flatMap((call) => call[0]);
+  return { logger, logs };
+};
+
+describe("truncateValue", () => {
+  it("keeps a preview, the digest and the size of the original JSON", () => {
+    const body = "x".repeat(1000);
+
+    expect(truncateValue(body, 10)).toEqual({
+      $truncated: true,
+      preview: "xxxxxxxxxx",
+      sha256: sha256(JSON.stringify(body)),
+      size: 1002,
+    });
+  });
+
+  it("does not cut multi-byte characters in half", () => {
+    expect(truncateValue("ééé", 3).preview).toBe("é");
+  });
+
+  it("previews non-string values as JSON", () => {
+    const value = truncateValue({ a: [1, 2, 3] }, 8);
+
+    expect(value.preview).toBe('{"a":[1,');
+    expect(isTruncatedValue(value)).toBe(true);
+    expect(isTruncatedValue({ preview: "x" })).toBe(false);
+  });
+});
+
+describe("truncateAuditLog", () => {
+  const log = (values: AuditLog["values"]): AuditLog => ({
+    action: "UPDATE",
+    tableName: "documents",
+    recordId: "1",
+    values,
+  });
+
+  it("truncates each side of a diff separately", () => {
+    const result = truncateAuditLog(
+      log({ body: { old: "short", new: "y".repeat(100) }, title: { old: "a", new: "b" } }),
+      { maxFieldBytes: 50, maxEntryBytes: null },
+    );
+
+    expect(result.values).toMatchObject({
+      body: { old: "short", new: { $truncated: true, size: 102 } },
+      title: { old: "a", new: "b" },
+    });
+    expect(result.metadata).toEqual({ truncated: true, truncatedFields: ["body.new"] });
+  });
+
+  it("truncates patch operation values", () => {
+    const result = truncateAuditLog(
+      log([
+        { op: "replace", path: "/body", value: "z".repeat(100) },
+        { op: "remove", path: "/title" },
+      ]),
+      { maxFieldBytes: 50, maxEntryBytes: null },
+    );
+
+    expect(result.values).toEqual([
+      { op: "replace", path: "/body", value: expect.objectContaining({ $truncated: true }) },
+      { op: "remove", path: "/title" },
+    ]);
+    expect(result.metadata?.truncatedFields).toEqual(["/body"]);
+  });
+
+  it("returns the log unchanged when it is within the limits", () => {
+    const entry = log({ title: "ok" });
+
+    expect(truncateAuditLog(entry, { maxFieldBytes: 100, maxEntryBytes: 100 })).toBe(entry);
+  });
+});
+
+describe("Size limits", () => {
+  it("truncates fields over maxFieldBytes and flags the entry", async () => {
+    const { logger, logs } = setup({ maxFieldBytes: 100 });
+    const body = "lorem ipsum ".repeat(50);
+
+    await logger.logInsert("documents", { id: 1, title: "Report", body });
+
+    expect(logs()[0]).toMatchObject({
+      values: {
+        id: 1,
+        title: "Report",
+        body: {
+          $truncated: true,
+          preview: body.slice(0, 100),
+          sha256: sha256(JSON.stringify(body)),
+          size: body.length + 2,
+        },
+      },
+      metadata: { truncated: true, truncatedFields: ["body"] },
+    });
+  });
+
+  it("truncates the largest fields until the entry fits maxEntryBytes", async () => {
+    const { logger, logs } = setup({ maxEntryBytes: 800 });
+
+    await logger.logInsert("documents", {
+      id: 1,
+      summary: "s".repeat(300),
+      body: "b".repeat(600),
+    });
+
+    const [entry] = logs();
+    expect(entry.values.summary).toBe("s".repeat(300));
+    expect(isTruncatedValue(entry.values.body)).toBe(true);
+    expect(Buffer.byteLength(JSON.stringify(entry.values))).toBeLessThanOrEqual(800);
+    expect(entry.metadata.truncatedFields).toEqual(["body"]);
+  });
+
+  it("replaces the whole values object when truncating fields is not enough", async () => {
+    const { logger, logs } = setup({ maxEntryBytes: 200 });
+    const record = Object.fromEntries(
+      Array.from({ length: 20 }, (_, index) => [`field${index}`, index]),
+    );
+
+    await logger.logInsert("documents", { id: 1, ...record });
+
+    const [entry] = logs();
+    expect(entry.values).toMatchObject({ $truncated: true });
+    expect(entry.metadata).toEqual({ truncated: true });
+  });
+
+  it("keeps the whole-entry envelope within maxEntryBytes", async () => {
+    const { logger, logs } = setup({ maxEntryBytes: 200 });
+    // Quotes are escaped in the preview, so it takes more bytes than its budget
+    const record = Object.fromEntries(
+      Array.from({ length: 40 }, (_, index) => [`f${index}`, `"${index}"`]),
+    );
+
+    await logger.logInsert("documents", { id: 1, ...record });
+
+    const [entry] = logs();
+    expect(isTruncatedValue(entry.values)).toBe(true);
+    expect(Buffer.byteLength(JSON.stringify(entry.values))).toBeLessThanOrEqual(200);
+  });
+
+  it("truncates after encryption so previews never contain plaintext", async () => {
+    const { logger, logs } = setup({
+      maxEntryBytes: 300,
+      maxFieldBytes: 100,
+      encryption: {
+        keyProvider: createStaticKeyProvider({ k1: randomBytes(32) }, "k1"),
+        fields: ["ssn"],
+      },
+    });
+    const record = Object.fromEntries(
+      Array.from({ length: 20 }, (_, index) => [`field${index}`, index]),
+    );
+
+    await logger.logInsert("documents", { id: 1, ssn: "123-45-6789", ...record });
+
+    const [entry] = logs();
+    const stored = JSON.stringify(entry.values);
+    expect(isTruncatedValue(entry.values)).toBe(true);
+    expect(stored).not.toContain("123-45-6789");
+    expect(Buffer.byteLength(stored)).toBeLessThanOrEqual(300);
+  });
+
+  it("rejects limits that are not positive integers", () => {
+    expect(() => setup({ maxFieldBytes: 0 })).toThrow("maxFieldBytes must be a positive integer");
+    expect(() => setup({ maxEntryBytes: 1.5 })).toThrow("maxEntryBytes must be a positive integer");
+    expect(() => setup({ maxEntryBytes: 100 })).toThrow("maxEntryBytes must be at least 160");
+  });
+});
@@ -0,0 +1,122 @@
+import { pgTable, serial, text, varchar } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  name: text("name"),
+});
+
+const setup = (responses: unknown[][][], updateValuesMode: "changed" | "full" = "changed") =>
+  createMockAuditDb(responses, { tables: { users: { primaryKey: "id" } }, updateValuesMode });
+
+describe("Upsert auditing", () => {
+  it("logs inserted rows as INSERT and conflicting rows as UPDATE", async () => {
+    const { db, queries, customWriter } = setup([
+      // before-state SELECT of conflicting rows
+      [[1, "a@example.com", "Old"]],
+      // INSERT ... RETURNING with xmax flag
+      [
+        [1, "a@example.com", "New", false],
+        [2, "b@example.com", "Bee", true],
+      ],
+    ]);
+
+    const result = await db
+      .insert(users)
+      .values([
+        { email: "a@example.com", name: "New" },
+        { email: "b@example.com", name: "Bee" },
+      ])
+      .onConflictDoUpdate({ target: users.email, set: { name: "New" } })
+      .returning();
+
+    expect(queries[0]).toMatch(/^select .* from "users" where/);
+    expect(queries[1]).toContain("(xmax = 0)");
+    expect(result).toEqual([
+      { id: 1, email: "a@example.com", name: "New" },
+      { id: 2, email: "b@example.com", name: "Bee" },
+    ]);
+
+    const logs = customWriter.mock.calls.flatMap((call) => call[0]);
+    expect(logs).toEqual([
+      {
+        action: "INSERT",
+        tableName: "users",
+        recordId: "2",
+        values: { id: 2, email: "b@example.com", name: "Bee" },
+      },
+      { action: "UPDATE", tableName: "users", recordId: "1", values: { name: "New" } },
+    ]);
+  });
+
+  it("projects partial returning selections without the hidden flag", async () => {
+    const { db } = setup([[], [[1, "a@example.com", "New", true]]]);
+
+    const result = await db
+      .insert(users)
+      .values({ email: "a@example.com", name: "New" })
+      .onConflictDoUpdate({ target: users.email, set: { name: "New" } })
+      .returning({ id: users.id });
+
+    expect(result).toEqual([{ id: 1 }]);
+  });
+
+  it("skips the before-state SELECT in full mode", async () => {
+    const { db, queries, customWriter } = setup([[[1, "a@example.com", "New", false]]], "full");
+
+    await db
+      .insert(users)
+      .values({ email: "a@example.com", name: "New" })
+      .onConflictDoUpdate({ target: users.email, set: { name: "New" } });
+
+    expect(queries).toHaveLength(1);
+    expect(customWriter.mock.calls[0]?.[0]).toEqual([
+      {
+        action: "UPDATE",
+        tableName: "users",
+        recordId: "1",
+        values: { id: 1, email: "a@example.com", name: "New" },
+      },
+    ]);
+  });
+
+  it("reports a failed before-state SELECT through logError and still upserts", async () => {
+    const client = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("select failed"))
+      .mockResolvedValueOnce({ rows: [[1, "a@example.com", "New", false]] });
+    const logError = vi.fn();
+    const customWriter = vi.fn();
+    const logger = new AuditLogger(drizzle(client) as any, {
+      tables: { users: { primaryKey: "id" } },
+      customWriter,
+      logError,
+    });
+
+    await logger
+      .createAuditedDb()
+      .insert(users)
+      .values({ email: "a@example.com", name: "New" })
+      .onConflictDoUpdate({ target: users.email, set: { name: "New" } });
+
+    expect(logError).toHaveBeenCalledWith(
+      "[AUDIT] Failed to capture upsert before state:",
+      expect.objectContaining({ cause: expect.objectContaining({ message: "select failed" }) }),
+    );
+    expect(customWriter.mock.calls[0]?.[0]).toMatchObject([{ action: "UPDATE", recordId: "1" }]);
+  });
+
+  it("keeps onConflictDoNothing as a plain INSERT", async () => {
+    const { db, queries, customWriter } = setup([[[2, "b@example.com", "Bee"]]]);
+
+    await db.insert(users).values({ email: "b@example.com", name: "Bee" }).onConflictDoNothing();
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).not.toContain("xmax");
+    expect(customWriter.mock.calls[0]?.[0]).toMatchObject([{ action: "INSERT", recordId: "2" }]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { eq } from "drizzle-orm";
+import { integer, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+const vehicles = pgTable("vehicles", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id"),
+  licensePlate: text("license_plate"),
+  model: text("model"),
+});
+
+const setup = (responses: unknown[][][], config: Partial<AuditConfig>) =>
+  createMockAuditDb(responses, { tables: { vehicles: { primaryKey: "id" } }, ...config });
+
+describe("valueKeyStyle", () => {
+  it("stores property keys by default", async () => {
+    const { db, logs } = setup([[[1, 7, "AB123", "Model 3"]]], {});
+
+    await db.insert(vehicles).values({ ownerId: 7, licensePlate: "AB123", model: "Model 3" });
+
+    expect(logs()[0]?.values).toEqual({
+      id: 1,
+      ownerId: 7,
+      licensePlate: "AB123",
+      model: "Model 3",
+    });
+  });
+
+  it("stores column names using metadata from the queried table", async () => {
+    const { db, logs } = setup([[[1, 7, "AB123", "Model 3"]]], { valueKeyStyle: "column" });
+
+    await db.insert(vehicles).values({ ownerId: 7, licensePlate: "AB123", model: "Model 3" });
+
+    expect(logs()[0]?.values).toEqual({
+      id: 1,
+      owner_id: 7,
+      license_plate: "AB123",
+      model: "Model 3",
+    });
+  });
+
+  it("stores both keys for columns whose names differ", async () => {
+    const { db, logs } = setup([[[1, 7, "AB123", "Model 3"]], [[1, 8, "AB123", "Model 3"]]], {
+      valueKeyStyle: "both",
+    });
+
+    await db.update(vehicles).set({ ownerId: 8 }).where(eq(vehicles.id, 1));
+
+    expect(logs()[0]?.values).toEqual({ ownerId: 8, owner_id: 8 });
+  });
+
+  it("matches fields, excludeFields and redact by property key or column name", async () => {
+    const customWriter = vi.fn();
+    const logger = new AuditLogger({} as any, {
+      tables: [vehicles],
+      customWriter,
+      valueKeyStyle: "column",
+      fields: { vehicles: ["id", "owner_id", "licensePlate", "model"] },
+      excludeFields: ["model"],
+      redact: { licensePlate: "mask" },
+    });
+
+    await logger.logInsert("vehicles", { id: 1, ownerId: 7, licensePlate: "AB123", model: "X" });
+
+    expect(customWriter.mock.calls[0][0][0].values).toEqual({
+      id: 1,
+      owner_id: 7,
+      license_plate: "A**23",
+    });
+  });
+
+  it("excludes fields keyed by column name as well as by property key", async () => {
+    const customWriter = vi.fn();
+    const logger = new AuditLogger({} as any, {
+      tables: [vehicles],
+      customWriter,
+      excludeFields: ["licensePlate"],
+      fields: { vehicles: ["id", "owner_id", "license_plate"] },
+    });
+
+    await logger.logInsert("vehicles", { id: 1, owner_id: 7, license_plate: "AB123" });
+    await logger.logInsert("vehicles", { id: 2, ownerId: 8, licensePlate: "CD456" });
+
+    expect(customWriter.mock.calls.map((call) => call[0][0].values)).toEqual([
+      { id: 1, owner_id: 7 },
+      { id: 2, ownerId: 8 },
+    ]);
+  });
+
+  it("resolves columns of tables configured by name from the db schema", async () => {
+    const { logger, logs } = createMockAuditDb(
+      [],
+      {
+        tables: { vehicles: { primaryKey: "id" } },
+        excludeFields: ["license_plate"],
+        valueKeyStyle: "column",
+      },
+      { schema: { vehicles } },
+    );
+
+    // No query has run on the table yet
+    await logger.logInsert("vehicles", { id: 1, ownerId: 7, licensePlate: "AB123" });
+
+    expect(logs()[0]?.values).toEqual({ id: 1, owner_id: 7 });
+  });
+
+  it("rejects unknown styles", () => {
+    expect(() => setup([], { valueKeyStyle: "snake" as any })).toThrow(
+      "valueKeyStyle must be one of property, column, both",
+    );
+  });
+});
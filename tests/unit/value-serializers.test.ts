@@ -0,0 +1,123 @@
+import type { AuditConfig } from "../../src/types/config.js";
+import { customType, numeric, pgTable, serial } from "drizzle-orm/pg-core";
+import { describe, it, expect, vi } from "vitest";
+import { AuditLogger } from "../../src/core/AuditLogger.js";
+import {
+  bigintSerializer,
+  dateSerializer,
+  DEFAULT_VALUE_SERIALIZERS,
+  reviveAuditValues,
+} from "../../src/utils/value-serializers.js";
+import { createMockAuditDb } from "../setup/mock-db.js";
+
+class Decimal {
+  constructor(private readonly digits: string) {}
+  toFixed() {
+    return this.digits;
+  }
+  toString() {
+    return this.digits;
+  }
+}
+
+const point = customType<{ data: { x: number; y: number } }>({
+  dataType: () => "geometry(Point, 4326)",
+});
+
+const places = pgTable("places", {
+  id: serial("id").primaryKey(),
+  location: point("location"),
+  price: numeric("price"),
+});
+
+const setup = (config: Partial<AuditConfig> = {}) => {
+  const customWriter = vi.fn();
+  const logger = new AuditLogger({} as any, {
+    tables: { files: { primaryKey: "id" } },
+    customWriter,
+    ...config,
+  });
+  const logs = () => customWriter.mock.calls.flatMap((call) => call[0]);
+  return { logger, logs };
+};
+
+describe("Value serializers", () => {
+  it("serializes binary data, collections and decimals with the built-ins", async () => {
+    const { logger, logs } = setup();
+
+    await logger.logInsert("files", {
+      id: 1,
+      content: Buffer.from("hello"),
+      tags: new Set(["a", "b"]),
+      headers: new Map([["etag", "x1"]]),
+      size: new Decimal("12.3400000000000000001"),
+      nested: { chunks: [new Uint8Array([1, 2, 3])] },
+    });
+
+    expect(logs()[0]?.values).toEqual({
+      id: 1,
+      content: { base64: "aGVsbG8=", length: 5 },
+      tags: ["a", "b"],
+      headers: [["etag", "x1"]],
+      size: "12.3400000000000000001",
+      nested: { chunks: [{ base64: "AQID", length: 3 }] },
+    });
+  });
+
+  it("tags values so they can be revived", async () => {
+    const serializers = [dateSerializer, bigintSerializer];
+    const { logger, logs } = setup({ serializers, tagSerializedValues: true });
+    const createdAt = new Date("2024-01-02T03:04:05.000Z");
+
+    await logger.logInsert("files", {
+      id: 1,
+      content: Buffer.from("hi"),
+      createdAt,
+      views: 9007199254740993n,
+    });
+
+    const { values } = logs()[0];
+    expect(values.content).toEqual({ $type: "binary", value: { base64: "aGk=", length: 2 } });
+    expect(values.createdAt).toEqual({ $type: "date", value: "2024-01-02T03:04:05.000Z" });
+
+    expect(reviveAuditValues(values, [...serializers, ...DEFAULT_VALUE_SERIALIZERS])).toEqual({
+      id: 1,
+      content: Buffer.from("hi"),
+      createdAt,
+      views: 9007199254740993n,
+    });
+  });
+
+  it("matches serializers by column type of the queried table", async () => {
+    const { db, logs } = createMockAuditDb([[[1, { x: 10, y: 59 }, "9.99"]]], {
+      tables: { places: { primaryKey: "id" } },
+      serializers: [
+        {
+          name: "geometry",
+          columnType: /^geometry/,
+          serialize: (value) => {
+            const { x, y } = value as { x: number; y: number };
+            return { type: "Point", coordinates: [x, y] };
+          },
+        },
+      ],
+    });
+
+    await db.insert(places).values({ location: { x: 10, y: 59 }, price: "9.99" });
+
+    expect(logs()[0]?.values).toEqual({
+      id: 1,
+      location: { type: "Point", coordinates: [10, 59] },
+      price: "9.99",
+    });
+  });
+
+  it("validates serializers", () => {
+    expect(() => setup({ serializers: [{ name: "x" } as any] })).toThrow(
+      "serializers[0] must have a name and a serialize function",
+    );
+    expect(() => setup({ serializers: [{ name: "x", serialize: String }] })).toThrow(
+      "serializers[0] must define test or columnType",
+    );
+  });
+});